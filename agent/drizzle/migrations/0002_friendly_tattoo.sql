@@ -0,0 +1 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "auto_submitted" boolean DEFAULT false NOT NULL;
\ No newline at end of file
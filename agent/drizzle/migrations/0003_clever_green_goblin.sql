@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "student_answers_attempt_question_idx" ON "student_answers" USING btree ("attempt_id","question_id");
\ No newline at end of file
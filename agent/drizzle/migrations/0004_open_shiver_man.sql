@@ -0,0 +1,3 @@
+ALTER TABLE "quizzes" ADD COLUMN "max_attempts" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "attempt_cooldown_minutes" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "scoring_policy" varchar(16) DEFAULT 'best' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "ai_evaluation_status" varchar(16);--> statement-breakpoint
+ALTER TABLE "student_answers" ADD COLUMN "graded_by" varchar(16) DEFAULT 'auto' NOT NULL;
\ No newline at end of file
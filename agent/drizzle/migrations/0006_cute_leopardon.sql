@@ -0,0 +1,20 @@
+CREATE TABLE "grade_audits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"answer_id" integer NOT NULL,
+	"attempt_id" varchar(64) NOT NULL,
+	"changed_by" varchar(64),
+	"previous_marks" integer NOT NULL,
+	"new_marks" integer NOT NULL,
+	"previous_feedback" text,
+	"new_feedback" text,
+	"previous_graded_by" varchar(16) NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "student_answers" ADD COLUMN "ai_confidence" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "grade_audits" ADD CONSTRAINT "grade_audits_answer_id_student_answers_id_fk" FOREIGN KEY ("answer_id") REFERENCES "public"."student_answers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_audits" ADD CONSTRAINT "grade_audits_attempt_id_quiz_attempts_id_fk" FOREIGN KEY ("attempt_id") REFERENCES "public"."quiz_attempts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_audits" ADD CONSTRAINT "grade_audits_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "grade_audits_answer_id_idx" ON "grade_audits" USING btree ("answer_id");--> statement-breakpoint
+CREATE INDEX "grade_audits_attempt_id_idx" ON "grade_audits" USING btree ("attempt_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "questions" ADD COLUMN "rubric" jsonb;--> statement-breakpoint
+ALTER TABLE "student_answers" ADD COLUMN "rubric_scores" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "material_chunks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"material_id" varchar(64) NOT NULL,
+	"topic_id" varchar(64) NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"page_start" integer,
+	"page_end" integer,
+	"text" text NOT NULL,
+	"token_count" integer NOT NULL,
+	"terms" jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "material_chunks" ADD CONSTRAINT "material_chunks_material_id_materials_id_fk" FOREIGN KEY ("material_id") REFERENCES "public"."materials"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "material_chunks" ADD CONSTRAINT "material_chunks_topic_id_topics_id_fk" FOREIGN KEY ("topic_id") REFERENCES "public"."topics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "material_chunks_topic_id_idx" ON "material_chunks" USING btree ("topic_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "material_chunks_material_chunk_idx" ON "material_chunks" USING btree ("material_id","chunk_index");
\ No newline at end of file
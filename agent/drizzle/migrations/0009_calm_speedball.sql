@@ -0,0 +1,4 @@
+ALTER TABLE "questions" ADD COLUMN "source_material_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "source_page_start" integer;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "source_page_end" integer;--> statement-breakpoint
+ALTER TABLE "questions" ADD CONSTRAINT "questions_source_material_id_materials_id_fk" FOREIGN KEY ("source_material_id") REFERENCES "public"."materials"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "materials" ADD COLUMN "format" varchar(16);
\ No newline at end of file
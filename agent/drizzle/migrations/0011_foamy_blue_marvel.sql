@@ -0,0 +1,5 @@
+ALTER TABLE "materials" ADD COLUMN "status" varchar(16) DEFAULT 'ready' NOT NULL;--> statement-breakpoint
+ALTER TABLE "materials" ADD COLUMN "processing_error" text;--> statement-breakpoint
+ALTER TABLE "materials" ADD COLUMN "page_count" integer;--> statement-breakpoint
+ALTER TABLE "materials" ADD COLUMN "language" varchar(8);--> statement-breakpoint
+ALTER TABLE "materials" ADD COLUMN "processed_at" timestamp with time zone;
\ No newline at end of file
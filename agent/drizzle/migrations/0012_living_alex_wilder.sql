@@ -0,0 +1,3 @@
+ALTER TABLE "materials" ADD COLUMN "content_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "storage_quota_bytes" bigint;--> statement-breakpoint
+CREATE INDEX "materials_content_hash_idx" ON "materials" USING btree ("content_hash");
\ No newline at end of file
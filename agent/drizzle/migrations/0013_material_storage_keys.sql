@@ -0,0 +1,3 @@
+-- Materials used to store absolute paths inside the uploads directory; they are now
+-- storage keys relative to it, so keep just the file name.
+UPDATE "materials" SET "file_path" = regexp_replace("file_path", '^.*/', '') WHERE "file_path" LIKE '/%';
@@ -0,0 +1,3 @@
+ALTER TABLE "topics" ADD COLUMN "parent_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "topics" ADD CONSTRAINT "topics_parent_id_topics_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."topics"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "topics_parent_id_idx" ON "topics" USING btree ("parent_id");
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE "class_students" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"class_id" varchar(64) NOT NULL,
+	"student_id" varchar(64) NOT NULL,
+	"joined_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "classes" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"subject" varchar(128),
+	"term" varchar(64),
+	"teacher_id" varchar(64) NOT NULL,
+	"organization_id" varchar(64),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quiz_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quiz_id" varchar(64) NOT NULL,
+	"class_id" varchar(64) NOT NULL,
+	"due_at" timestamp with time zone,
+	"assigned_by" varchar(64),
+	"assigned_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "class_students" ADD CONSTRAINT "class_students_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "class_students" ADD CONSTRAINT "class_students_student_id_users_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "classes" ADD CONSTRAINT "classes_teacher_id_users_id_fk" FOREIGN KEY ("teacher_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "classes" ADD CONSTRAINT "classes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_assignments" ADD CONSTRAINT "quiz_assignments_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_assignments" ADD CONSTRAINT "quiz_assignments_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_assignments" ADD CONSTRAINT "quiz_assignments_assigned_by_users_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "class_students_class_student_idx" ON "class_students" USING btree ("class_id","student_id");--> statement-breakpoint
+CREATE INDEX "class_students_student_id_idx" ON "class_students" USING btree ("student_id");--> statement-breakpoint
+CREATE INDEX "classes_teacher_id_idx" ON "classes" USING btree ("teacher_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "quiz_assignments_quiz_class_idx" ON "quiz_assignments" USING btree ("quiz_id","class_id");--> statement-breakpoint
+CREATE INDEX "quiz_assignments_class_id_idx" ON "quiz_assignments" USING btree ("class_id");
\ No newline at end of file
@@ -0,0 +1,60 @@
+CREATE TABLE "live_answers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" varchar(64) NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"question_index" integer NOT NULL,
+	"answer_text" text NOT NULL,
+	"is_correct" boolean NOT NULL,
+	"marks_awarded" integer DEFAULT 0 NOT NULL,
+	"ai_feedback" text,
+	"rubric_scores" jsonb,
+	"time_taken_ms" integer NOT NULL,
+	"answered_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "live_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" varchar(64) NOT NULL,
+	"seq" integer NOT NULL,
+	"event" varchar(32) NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "live_participants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" varchar(64) NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"score" integer DEFAULT 0 NOT NULL,
+	"joined_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "live_sessions" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"join_code" varchar(6) NOT NULL,
+	"quiz_id" varchar(64) NOT NULL,
+	"teacher_id" varchar(64) NOT NULL,
+	"status" varchar(16) DEFAULT 'waiting' NOT NULL,
+	"current_question_index" integer DEFAULT -1 NOT NULL,
+	"question_started_at" timestamp with time zone,
+	"question_time_limit_ms" integer NOT NULL,
+	"questions" jsonb NOT NULL,
+	"last_event_seq" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"ended_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "live_answers" ADD CONSTRAINT "live_answers_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_answers" ADD CONSTRAINT "live_answers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_events" ADD CONSTRAINT "live_events_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_teacher_id_users_id_fk" FOREIGN KEY ("teacher_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "live_answers_session_user_question_idx" ON "live_answers" USING btree ("session_id","user_id","question_index");--> statement-breakpoint
+CREATE UNIQUE INDEX "live_events_session_seq_idx" ON "live_events" USING btree ("session_id","seq");--> statement-breakpoint
+CREATE UNIQUE INDEX "live_participants_session_user_idx" ON "live_participants" USING btree ("session_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "live_sessions_active_code_idx" ON "live_sessions" USING btree ("join_code") WHERE status <> 'ended';--> statement-breakpoint
+CREATE INDEX "live_sessions_join_code_idx" ON "live_sessions" USING btree ("join_code","created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "live_answers" ADD COLUMN "points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "live_answers" ADD COLUMN "streak" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD COLUMN "points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD COLUMN "streak" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "live_sessions" ADD COLUMN "phase_ends_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "paused_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "auto_advance_seconds" integer;
\ No newline at end of file
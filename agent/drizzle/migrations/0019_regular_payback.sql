@@ -0,0 +1,6 @@
+ALTER TABLE "live_participants" ADD COLUMN "attempt_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "live_participants" ADD COLUMN "xp_earned" integer;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "finalized_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_attempt_id_quiz_attempts_id_fk" FOREIGN KEY ("attempt_id") REFERENCES "public"."quiz_attempts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Sessions that ended before finalization existed already saved what they were going to
+UPDATE "live_sessions" SET "finalized_at" = COALESCE("ended_at", now()) WHERE "status" = 'ended';
@@ -0,0 +1,12 @@
+CREATE TABLE "live_teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" varchar(64) NOT NULL,
+	"name" varchar(64) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "live_participants" ADD COLUMN "team_id" integer;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "team_scoring" varchar(8);--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD COLUMN "team_assignment" varchar(8);--> statement-breakpoint
+ALTER TABLE "live_teams" ADD CONSTRAINT "live_teams_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "live_teams_session_name_idx" ON "live_teams" USING btree ("session_id","name");--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_team_id_live_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."live_teams"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
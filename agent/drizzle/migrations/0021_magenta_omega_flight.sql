@@ -0,0 +1 @@
+ALTER TABLE "live_sessions" ADD COLUMN "finalizing_until" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "source" varchar(8) DEFAULT 'quiz' NOT NULL;--> statement-breakpoint
+-- Attempts already recorded from live games
+UPDATE "quiz_attempts" SET "source" = 'live' WHERE "id" IN (SELECT "attempt_id" FROM "live_participants" WHERE "attempt_id" IS NOT NULL);
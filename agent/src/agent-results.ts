@@ -0,0 +1,192 @@
+/** Parsing of structured results out of free-text agent replies. */
+
+import { z } from "zod";
+import { validateQuestion, type QuestionInput } from "./question-types.js";
+
+/**
+ * Pull the JSON payload out of an agent reply: the last fenced ```json block if there
+ * is one, otherwise the outermost {...} or [...] span.
+ */
+export function extractJsonBlock(text: string): unknown {
+  const fenced = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)];
+  const candidates = fenced.length > 0 ? fenced.map((m) => m[1]).reverse() : [];
+
+  for (const [open, close] of [["{", "}"], ["[", "]"]] as const) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+// ── Short-answer evaluation ──
+
+export const aiEvaluationSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        question_id: z.string(),
+        marks_awarded: z.number().min(0),
+        feedback: z.string().min(1),
+        confidence: z.number().min(0).max(1).optional(),
+        criteria: z
+          .array(
+            z.object({
+              criterion_id: z.string(),
+              marks_awarded: z.number().min(0),
+              feedback: z.string(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .min(1),
+});
+
+export type AiEvaluationResult = z.infer<typeof aiEvaluationSchema>["results"][number];
+
+/** Parse the per-question results an evaluation reply must end with, or null if malformed. */
+export function parseAiEvaluation(text: string): AiEvaluationResult[] | null {
+  const parsed = aiEvaluationSchema.safeParse(extractJsonBlock(text));
+  return parsed.success ? parsed.data.results : null;
+}
+
+export const AI_EVALUATION_FORMAT =
+  `After using the tool, reply with ONLY a JSON object in this exact shape:\n` +
+  `{"results": [{"question_id": "<id>", "marks_awarded": <number between 0 and the question's marks>, ` +
+  `"feedback": "<specific, constructive feedback for the student>", ` +
+  `"confidence": <0 to 1, how sure you are of the mark>, ` +
+  `"criteria": [{"criterion_id": "<rubric criterion id>", "marks_awarded": <0 to its points>, "feedback": "<why>"}]}]}\n` +
+  `Include one entry for every answer listed above. Only include "criteria" for answers whose ` +
+  `question has a rubric, with one entry per rubric criterion; marks_awarded must then equal their sum.`;
+
+// ── Quiz generation ──
+
+/** Template text the old placeholder generator emitted; none of it may reach the question bank. */
+const PLACEHOLDER_PATTERNS = [
+  /\[(?:AI should|TODO|placeholder|insert)[^\]]*\]/i,
+  /^(?:option|term|definition|step|item|answer) ?[a-z0-9]$/i,
+  /^sample correct answer$/i,
+];
+
+function placeholderIn(value: unknown): string | null {
+  if (typeof value === "string") {
+    return PLACEHOLDER_PATTERNS.some((p) => p.test(value.trim())) ? value : null;
+  }
+  if (Array.isArray(value)) {
+    for (const v of value) {
+      const hit = placeholderIn(v);
+      if (hit) return hit;
+    }
+    return null;
+  }
+  if (value && typeof value === "object") return placeholderIn(Object.values(value));
+  return null;
+}
+
+/** Where a cited excerpt came from. */
+export interface SourceRef {
+  material_id: string;
+  page_start: number | null;
+  page_end: number | null;
+}
+
+export interface GenerationConstraints {
+  numQuestions: number;
+  questionTypes: readonly string[];
+  /** Excerpt references ("S1", ...) the questions may cite in a `source` field. */
+  sources?: Record<string, SourceRef>;
+}
+
+/** Swap a question's `source` reference for the citation columns it points at. */
+function resolveSource(candidate: unknown, sources: Record<string, SourceRef>): unknown {
+  if (!candidate || typeof candidate !== "object" || !("source" in candidate)) return candidate;
+  const { source, ...rest } = candidate as { source: unknown };
+  if (source == null || source === "") return rest;
+  const ref = typeof source === "string" ? sources[source.trim()] : undefined;
+  if (!ref) throw new Error(`source "${String(source)}" is not one of the provided excerpts`);
+  return {
+    ...rest,
+    source_material_id: ref.material_id,
+    source_page_start: ref.page_start,
+    source_page_end: ref.page_end,
+  };
+}
+
+export type GeneratedQuizParse =
+  | { ok: true; questions: QuestionInput[] }
+  | { ok: false; errors: string[] };
+
+const generatedQuizSchema = z.union([
+  z.object({ questions: z.array(z.unknown()).min(1) }),
+  z.array(z.unknown()).min(1).transform((questions) => ({ questions })),
+]);
+
+/**
+ * Validate generated questions with the same per-type rules as teacher-authored ones,
+ * and reject placeholder text, unrequested types or the wrong number of questions.
+ */
+export function validateGeneratedQuestions(raw: unknown, constraints: GenerationConstraints): GeneratedQuizParse {
+  const envelope = generatedQuizSchema.safeParse(raw);
+  if (!envelope.success) {
+    return { ok: false, errors: ['reply must be a JSON object {"questions": [...]} with at least one question'] };
+  }
+
+  const errors: string[] = [];
+  const accepted: QuestionInput[] = [];
+  envelope.data.questions.forEach((raw, i) => {
+    let candidate: unknown;
+    try {
+      candidate = resolveSource(raw, constraints.sources ?? {});
+    } catch (err) {
+      errors.push(`questions[${i}]: ${(err as Error).message}`);
+      return;
+    }
+    const result = validateQuestion(candidate);
+    if (!result.ok) {
+      errors.push(`questions[${i}]: ${result.error}`);
+      return;
+    }
+    if (!constraints.questionTypes.includes(result.question.question_type)) {
+      errors.push(`questions[${i}]: question_type ${result.question.question_type} was not requested`);
+      return;
+    }
+    const placeholder = placeholderIn(result.question);
+    if (placeholder) {
+      errors.push(`questions[${i}]: contains placeholder text "${placeholder}"`);
+      return;
+    }
+    accepted.push(result.question);
+  });
+
+  if (envelope.data.questions.length !== constraints.numQuestions) {
+    errors.push(`expected ${constraints.numQuestions} questions, got ${envelope.data.questions.length}`);
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, questions: accepted };
+}
+
+/** Parse and validate the question set a generation reply must end with. */
+export function parseGeneratedQuiz(text: string, constraints: GenerationConstraints): GeneratedQuizParse {
+  return validateGeneratedQuestions(extractJsonBlock(text), constraints);
+}
+
+export const QUIZ_GENERATION_FORMAT =
+  `Reply with ONLY a JSON object of the form {"questions": [...]}. Each question has ` +
+  `question_text, question_type, options, correct_answer, marks, explanation and difficulty:\n` +
+  `- mcq: options is an array of 4 distinct strings; correct_answer is one of them\n` +
+  `- true_false: correct_answer is "True" or "False"; options may be omitted\n` +
+  `- short_answer: options is null; correct_answer is a model answer\n` +
+  `- fill_in_blank: options is {"sentence": "... ___ ...", "acceptable": [answers]}\n` +
+  `- matching: options is {"pairs": [{"left", "right"}, ...]} with at least 2 pairs\n` +
+  `- ordering: options is {"items": [...]}; correct_answer is a JSON array of item indices in the correct order\n` +
+  `When a question is based on a study material excerpt, add "source": "<excerpt reference, e.g. S2>".\n` +
+  `Write real content drawn from the topic and material. Never output placeholders such as ` +
+  `"Option A", "Term 1" or bracketed instructions.`;
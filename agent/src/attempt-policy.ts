@@ -0,0 +1,76 @@
+/** Attempt policy - which of a student's attempts at a quiz counts towards their result. */
+
+export const SCORING_POLICIES = ["best", "latest", "average"] as const;
+
+export type ScoringPolicy = (typeof SCORING_POLICIES)[number];
+
+export function isScoringPolicy(value: unknown): value is ScoringPolicy {
+  return typeof value === "string" && (SCORING_POLICIES as readonly string[]).includes(value);
+}
+
+export interface ScoredAttempt {
+  id: string;
+  score: number;
+  total_marks: number;
+  percentage: number;
+  submitted_at: Date | null;
+}
+
+export interface CountedResult {
+  /** Attempts that make up the result: one for best/latest, all of them for average. */
+  attempt_ids: string[];
+  score: number;
+  total_marks: number;
+  percentage: number;
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/** Reduce one student's evaluated attempts at a quiz to the result the policy counts. */
+export function countedResult(attempts: ScoredAttempt[], policy: ScoringPolicy): CountedResult | null {
+  if (attempts.length === 0) return null;
+
+  if (policy === "average") {
+    return {
+      attempt_ids: attempts.map((a) => a.id),
+      score: round2(attempts.reduce((s, a) => s + a.score, 0) / attempts.length),
+      total_marks: attempts[0].total_marks,
+      percentage: round2(attempts.reduce((s, a) => s + a.percentage, 0) / attempts.length),
+    };
+  }
+
+  const pick =
+    policy === "latest"
+      ? attempts.reduce((a, b) => ((b.submitted_at?.getTime() ?? 0) > (a.submitted_at?.getTime() ?? 0) ? b : a))
+      : attempts.reduce((a, b) => (b.percentage > a.percentage ? b : a));
+
+  return { attempt_ids: [pick.id], score: pick.score, total_marks: pick.total_marks, percentage: pick.percentage };
+}
+
+/** Group attempts by student and apply the policy to each group. */
+export function countedResultsByStudent<T extends ScoredAttempt & { student_id: string }>(
+  attempts: T[],
+  policy: ScoringPolicy
+): Map<string, CountedResult> {
+  const byStudent = new Map<string, T[]>();
+  for (const a of attempts) {
+    if (!byStudent.has(a.student_id)) byStudent.set(a.student_id, []);
+    byStudent.get(a.student_id)!.push(a);
+  }
+  const results = new Map<string, CountedResult>();
+  for (const [studentId, list] of byStudent) {
+    results.set(studentId, countedResult(list, policy)!);
+  }
+  return results;
+}
+
+/** Minutes until a student may start another attempt, or 0 if they may start now. */
+export function cooldownRemainingMinutes(
+  lastSubmittedAt: Date | null,
+  cooldownMinutes: number | null,
+  now = new Date()
+): number {
+  if (!lastSubmittedAt || !cooldownMinutes) return 0;
+  const readyAt = lastSubmittedAt.getTime() + cooldownMinutes * 60_000;
+  return Math.max(0, Math.ceil((readyAt - now.getTime()) / 60_000));
+}
@@ -16,6 +16,19 @@ const pool = new pg.Pool({
 
 export const db = drizzle(pool, { schema });
 
+/** Send a Postgres NOTIFY on `channel` (delivered to LISTENers once the statement commits). */
+export async function notify(channel: string, payload: string): Promise<void> {
+  await pool.query("SELECT pg_notify($1, $2)", [channel, payload]);
+}
+
+/**
+ * A dedicated connection for LISTEN. It lives outside the pool, which would otherwise hand
+ * it back out or close it when idle and silently drop the subscription.
+ */
+export function createListenerClient(): pg.Client {
+  return new pg.Client({ connectionString: DATABASE_URL });
+}
+
 export async function checkDatabaseConnection(): Promise<boolean> {
   try {
     const client = await pool.connect();
@@ -5,6 +5,7 @@ import {
   varchar,
   text,
   integer,
+  bigint,
   serial,
   numeric,
   timestamp,
@@ -12,7 +13,11 @@ import {
   boolean,
   date,
   index,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { CriterionScore, Rubric } from "../rubric.js";
 
 // ── Organizations ──
 
@@ -21,6 +26,8 @@ export const organizations = pgTable("organizations", {
   name: varchar("name", { length: 255 }).notNull(),
   type: varchar("type", { length: 32 }).notNull().default("school"),
   address: text("address"),
+  // Material storage limit; null uses the server default (ORG_STORAGE_QUOTA_MB)
+  storage_quota_bytes: bigint("storage_quota_bytes", { mode: "number" }),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
@@ -65,12 +72,17 @@ export const topics = pgTable(
       () => organizations.id,
       { onDelete: "set null" }
     ),
+    // Parent topic (unit → chapter → lesson); null for top-level topics
+    parent_id: varchar("parent_id", { length: 64 }).references((): AnyPgColumn => topics.id, {
+      onDelete: "set null",
+    }),
     created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updated_at: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
     index("topics_teacher_id_idx").on(table.teacher_id),
     index("topics_subject_idx").on(table.subject),
+    index("topics_parent_id_idx").on(table.parent_id),
   ]
 );
 
@@ -84,15 +96,53 @@ export const materials = pgTable(
       .notNull()
       .references(() => topics.id, { onDelete: "cascade" }),
     file_name: varchar("file_name", { length: 255 }).notNull(),
+    // Storage key in the configured storage driver (see src/storage)
     file_path: text("file_path").notNull(),
     file_size_bytes: integer("file_size_bytes"),
+    format: varchar("format", { length: 16 }),
+    // SHA-256 of the file; identical uploads share one stored file
+    content_hash: varchar("content_hash", { length: 64 }),
     extracted_text: text("extracted_text"),
+    // Processing pipeline: pending → processing → ready | failed
+    status: varchar("status", { length: 16 }).notNull().default("ready"),
+    processing_error: text("processing_error"),
+    page_count: integer("page_count"),
+    language: varchar("language", { length: 8 }),
+    processed_at: timestamp("processed_at", { withTimezone: true }),
     uploaded_by: varchar("uploaded_by", { length: 64 }).references(() => users.id, {
       onDelete: "set null",
     }),
     created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
-  (table) => [index("materials_topic_id_idx").on(table.topic_id)]
+  (table) => [
+    index("materials_topic_id_idx").on(table.topic_id),
+    index("materials_content_hash_idx").on(table.content_hash),
+  ]
+);
+
+// ── Material Chunks (lexical retrieval index) ──
+
+export const materialChunks = pgTable(
+  "material_chunks",
+  {
+    id: serial("id").primaryKey(),
+    material_id: varchar("material_id", { length: 64 })
+      .notNull()
+      .references(() => materials.id, { onDelete: "cascade" }),
+    topic_id: varchar("topic_id", { length: 64 })
+      .notNull()
+      .references(() => topics.id, { onDelete: "cascade" }),
+    chunk_index: integer("chunk_index").notNull(),
+    page_start: integer("page_start"),
+    page_end: integer("page_end"),
+    text: text("text").notNull(),
+    token_count: integer("token_count").notNull(),
+    terms: jsonb("terms").$type<Record<string, number>>().notNull(),
+  },
+  (table) => [
+    index("material_chunks_topic_id_idx").on(table.topic_id),
+    uniqueIndex("material_chunks_material_chunk_idx").on(table.material_id, table.chunk_index),
+  ]
 );
 
 // ── Quizzes ──
@@ -115,6 +165,9 @@ export const quizzes = pgTable(
     expires_at: timestamp("expires_at", { withTimezone: true }),
     total_marks: integer("total_marks").notNull().default(0),
     pass_percentage: integer("pass_percentage").notNull().default(40),
+    max_attempts: integer("max_attempts"),
+    attempt_cooldown_minutes: integer("attempt_cooldown_minutes"),
+    scoring_policy: varchar("scoring_policy", { length: 16 }).notNull().default("best"),
     created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updated_at: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -142,6 +195,13 @@ export const questions = pgTable(
     explanation: text("explanation"),
     difficulty: varchar("difficulty", { length: 16 }).notNull().default("medium"),
     order_index: integer("order_index").notNull().default(0),
+    rubric: jsonb("rubric").$type<Rubric>(),
+    // Citation: the material (and page range within it) the question was drawn from
+    source_material_id: varchar("source_material_id", { length: 64 }).references(() => materials.id, {
+      onDelete: "set null",
+    }),
+    source_page_start: integer("source_page_start"),
+    source_page_end: integer("source_page_end"),
   },
   (table) => [index("questions_quiz_id_idx").on(table.quiz_id)]
 );
@@ -164,6 +224,10 @@ export const quizAttempts = pgTable(
     total_marks: integer("total_marks").notNull().default(0),
     percentage: numeric("percentage", { precision: 5, scale: 2 }),
     status: varchar("status", { length: 32 }).notNull().default("in_progress"),
+    auto_submitted: boolean("auto_submitted").notNull().default(false),
+    ai_evaluation_status: varchar("ai_evaluation_status", { length: 16 }),
+    // "quiz" for an attempt the student started; "live" for one recorded from a live game
+    source: varchar("source", { length: 8 }).notNull().default("quiz"),
   },
   (table) => [
     index("quiz_attempts_quiz_id_idx").on(table.quiz_id),
@@ -188,8 +252,43 @@ export const studentAnswers = pgTable(
     is_correct: boolean("is_correct"),
     marks_awarded: integer("marks_awarded").notNull().default(0),
     ai_feedback: text("ai_feedback"),
+    graded_by: varchar("graded_by", { length: 16 }).notNull().default("auto"),
+    ai_confidence: numeric("ai_confidence", { precision: 3, scale: 2 }),
+    rubric_scores: jsonb("rubric_scores").$type<CriterionScore[]>(),
+  },
+  (table) => [
+    index("student_answers_attempt_id_idx").on(table.attempt_id),
+    uniqueIndex("student_answers_attempt_question_idx").on(table.attempt_id, table.question_id),
+  ]
+);
+
+// ── Grade Audit Log (manual grade overrides) ──
+
+export const gradeAudits = pgTable(
+  "grade_audits",
+  {
+    id: serial("id").primaryKey(),
+    answer_id: integer("answer_id")
+      .notNull()
+      .references(() => studentAnswers.id, { onDelete: "cascade" }),
+    attempt_id: varchar("attempt_id", { length: 64 })
+      .notNull()
+      .references(() => quizAttempts.id, { onDelete: "cascade" }),
+    changed_by: varchar("changed_by", { length: 64 }).references(() => users.id, {
+      onDelete: "set null",
+    }),
+    previous_marks: integer("previous_marks").notNull(),
+    new_marks: integer("new_marks").notNull(),
+    previous_feedback: text("previous_feedback"),
+    new_feedback: text("new_feedback"),
+    previous_graded_by: varchar("previous_graded_by", { length: 16 }).notNull(),
+    reason: text("reason").notNull(),
+    created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
-  (table) => [index("student_answers_attempt_id_idx").on(table.attempt_id)]
+  (table) => [
+    index("grade_audits_answer_id_idx").on(table.answer_id),
+    index("grade_audits_attempt_id_idx").on(table.attempt_id),
+  ]
 );
 
 // ── Enrollments ──
@@ -212,6 +311,67 @@ export const enrollments = pgTable(
   ]
 );
 
+// ── Classes (teacher-led sections within an organization) ──
+
+export const classes = pgTable(
+  "classes",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    subject: varchar("subject", { length: 128 }),
+    term: varchar("term", { length: 64 }),
+    teacher_id: varchar("teacher_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    organization_id: varchar("organization_id", { length: 64 }).references(() => organizations.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("classes_teacher_id_idx").on(table.teacher_id)]
+);
+
+export const classStudents = pgTable(
+  "class_students",
+  {
+    id: serial("id").primaryKey(),
+    class_id: varchar("class_id", { length: 64 })
+      .notNull()
+      .references(() => classes.id, { onDelete: "cascade" }),
+    student_id: varchar("student_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    joined_at: timestamp("joined_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("class_students_class_student_idx").on(table.class_id, table.student_id),
+    index("class_students_student_id_idx").on(table.student_id),
+  ]
+);
+
+// ── Quiz Assignments (which classes see a quiz, and by when it is due) ──
+
+export const quizAssignments = pgTable(
+  "quiz_assignments",
+  {
+    id: serial("id").primaryKey(),
+    quiz_id: varchar("quiz_id", { length: 64 })
+      .notNull()
+      .references(() => quizzes.id, { onDelete: "cascade" }),
+    class_id: varchar("class_id", { length: 64 })
+      .notNull()
+      .references(() => classes.id, { onDelete: "cascade" }),
+    due_at: timestamp("due_at", { withTimezone: true }),
+    assigned_by: varchar("assigned_by", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
+    assigned_at: timestamp("assigned_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("quiz_assignments_quiz_class_idx").on(table.quiz_id, table.class_id),
+    index("quiz_assignments_class_id_idx").on(table.class_id),
+  ]
+);
+
 // ── Agent Conversations (for AI chat sessions) ──
 
 export const conversations = pgTable(
@@ -282,3 +442,145 @@ export const leaderboardEntries = pgTable(
     index("leaderboard_period_xp_idx").on(table.period, table.period_key, table.xp),
   ]
 );
+
+// ── Live Sessions (hosted real-time quiz games) ──
+
+/** A question as frozen into a live session when it starts, so edits mid-game do not leak in. */
+export interface LiveQuestionSnapshot {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options: unknown;
+  correct_answer: string;
+  marks: number;
+  difficulty: string;
+  rubric: Rubric | null;
+}
+
+export const liveSessions = pgTable(
+  "live_sessions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    // Six-digit code students join with; unique among sessions that have not ended
+    join_code: varchar("join_code", { length: 6 }).notNull(),
+    quiz_id: varchar("quiz_id", { length: 64 })
+      .notNull()
+      .references(() => quizzes.id, { onDelete: "cascade" }),
+    teacher_id: varchar("teacher_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // waiting -> question -> results -> ... -> ended
+    status: varchar("status", { length: 16 }).notNull().default("waiting"),
+    current_question_index: integer("current_question_index").notNull().default(-1),
+    question_started_at: timestamp("question_started_at", { withTimezone: true }),
+    // Default time per question; the host may override it question by question
+    question_time_limit_ms: integer("question_time_limit_ms").notNull(),
+    // When the current phase times out: the open question closes, or the reveal auto-advances
+    phase_ends_at: timestamp("phase_ends_at", { withTimezone: true }),
+    // Set while the host has paused the clock
+    paused_at: timestamp("paused_at", { withTimezone: true }),
+    // Seconds the reveal stays up before the next question opens by itself; null waits for the host
+    auto_advance_seconds: integer("auto_advance_seconds"),
+    // Team mode: how team scores combine ("average" | "sum"); null for an individual game
+    team_scoring: varchar("team_scoring", { length: 8 }),
+    // Team mode: "auto" balances students across teams; "choose" lets them pick on join
+    team_assignment: varchar("team_assignment", { length: 8 }),
+    questions: jsonb("questions").$type<LiveQuestionSnapshot[]>().notNull(),
+    // Sequence number of the latest event in live_events; the SSE event id
+    last_event_seq: integer("last_event_seq").notNull().default(0),
+    created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+    ended_at: timestamp("ended_at", { withTimezone: true }),
+    // Set once attempts and rewards have been recorded for every participant
+    finalized_at: timestamp("finalized_at", { withTimezone: true }),
+    // Lease held by the instance finalizing the session; a run that fails or dies lets it lapse
+    finalizing_until: timestamp("finalizing_until", { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex("live_sessions_active_code_idx").on(table.join_code).where(sql`status <> 'ended'`),
+    index("live_sessions_join_code_idx").on(table.join_code, table.created_at),
+  ]
+);
+
+export const liveTeams = pgTable(
+  "live_teams",
+  {
+    id: serial("id").primaryKey(),
+    session_id: varchar("session_id", { length: 64 })
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 64 }).notNull(),
+  },
+  (table) => [uniqueIndex("live_teams_session_name_idx").on(table.session_id, table.name)]
+);
+
+export const liveParticipants = pgTable(
+  "live_participants",
+  {
+    id: serial("id").primaryKey(),
+    session_id: varchar("session_id", { length: 64 })
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: "cascade" }),
+    user_id: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    // Set in team mode
+    team_id: integer("team_id").references(() => liveTeams.id, { onDelete: "set null" }),
+    // Marks earned, as saved to the quiz attempt
+    score: integer("score").notNull().default(0),
+    // Game points (speed- and streak-weighted) that rank the live leaderboard
+    points: integer("points").notNull().default(0),
+    // Correct answers in a row; reset by a wrong or missed answer
+    streak: integer("streak").notNull().default(0),
+    // Filled in when the session is finalized
+    attempt_id: varchar("attempt_id", { length: 64 }).references(() => quizAttempts.id, { onDelete: "set null" }),
+    xp_earned: integer("xp_earned"),
+    joined_at: timestamp("joined_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("live_participants_session_user_idx").on(table.session_id, table.user_id)]
+);
+
+export const liveAnswers = pgTable(
+  "live_answers",
+  {
+    id: serial("id").primaryKey(),
+    session_id: varchar("session_id", { length: 64 })
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: "cascade" }),
+    user_id: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    question_index: integer("question_index").notNull(),
+    answer_text: text("answer_text").notNull(),
+    is_correct: boolean("is_correct").notNull(),
+    marks_awarded: integer("marks_awarded").notNull().default(0),
+    points: integer("points").notNull().default(0),
+    streak: integer("streak").notNull().default(0),
+    ai_feedback: text("ai_feedback"),
+    rubric_scores: jsonb("rubric_scores").$type<CriterionScore[]>(),
+    time_taken_ms: integer("time_taken_ms").notNull(),
+    answered_at: timestamp("answered_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    // One answer per student per question, enforced across app instances
+    uniqueIndex("live_answers_session_user_question_idx").on(table.session_id, table.user_id, table.question_index),
+  ]
+);
+
+// ── Live Session Events (SSE broadcast log, replayed from Last-Event-ID) ──
+
+export const liveEvents = pgTable(
+  "live_events",
+  {
+    id: serial("id").primaryKey(),
+    session_id: varchar("session_id", { length: 64 })
+      .notNull()
+      .references(() => liveSessions.id, { onDelete: "cascade" }),
+    seq: integer("seq").notNull(),
+    event: varchar("event", { length: 32 }).notNull(),
+    data: jsonb("data").$type<unknown>().notNull(),
+    created_at: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex("live_events_session_seq_idx").on(table.session_id, table.seq)]
+);
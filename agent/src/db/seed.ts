@@ -6,7 +6,18 @@ import { fileURLToPath } from "node:url";
 import { randomBytes } from "node:crypto";
 import { count } from "drizzle-orm";
 import { db } from "./index.js";
-import { organizations, users, topics, quizzes, questions, enrollments, studentProfiles } from "./schema.js";
+import {
+  organizations,
+  users,
+  topics,
+  quizzes,
+  questions,
+  enrollments,
+  classes,
+  classStudents,
+  quizAssignments,
+  studentProfiles,
+} from "./schema.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -131,6 +142,33 @@ export async function seedDatabase(): Promise<void> {
       console.log(`Seeded ${raw.enrollments.length} enrollment(s).`);
     }
 
+    // Seed classes with their students and assigned quizzes
+    if (raw.classes) {
+      for (const cls of raw.classes) {
+        const classId = cls.id || genId();
+        await tx.insert(classes).values({
+          id: classId,
+          name: cls.name,
+          subject: cls.subject || null,
+          term: cls.term || null,
+          teacher_id: cls.teacher_id,
+          organization_id: cls.organization_id || null,
+        });
+        for (const studentId of cls.student_ids ?? []) {
+          await tx.insert(classStudents).values({ class_id: classId, student_id: studentId });
+        }
+        for (const assignment of cls.assignments ?? []) {
+          await tx.insert(quizAssignments).values({
+            quiz_id: assignment.quiz_id,
+            class_id: classId,
+            due_at: assignment.due_at ? new Date(assignment.due_at) : null,
+            assigned_by: cls.teacher_id,
+          });
+        }
+      }
+      console.log(`Seeded ${raw.classes.length} class(es).`);
+    }
+
     // Seed student profiles for gamification
     if (raw.users) {
       const students = raw.users.filter((u: { role: string }) => u.role === "student");
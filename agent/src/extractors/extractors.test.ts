@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { findExtractor, sectionUnit } from "./index.js";
+import { docxExtractor, pptxExtractor } from "./office.js";
+import { decodeEntities, htmlExtractor, markdownExtractor, plainTextExtractor } from "./text.js";
+
+const zipOf = async (files: Record<string, string>): Promise<Buffer> => {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: "nodebuffer" });
+};
+
+describe("findExtractor", () => {
+  it("prefers the extension and falls back to the MIME type", () => {
+    assert.equal(findExtractor("Notes.MD", "application/octet-stream")?.format, "markdown");
+    assert.equal(findExtractor("upload", "application/pdf")?.format, "pdf");
+    assert.equal(findExtractor("archive.zip", "application/zip"), null);
+  });
+
+  it("maps formats to their section unit, legacy rows to pages", () => {
+    assert.equal(sectionUnit("pptx"), "slide");
+    assert.equal(sectionUnit("markdown"), "section");
+    assert.equal(sectionUnit(null), "page");
+  });
+});
+
+describe("text extractors", () => {
+  it("decodes named and numeric entities", () => {
+    assert.equal(decodeEntities("a &amp; b &lt;c&gt; &#233;&#x20AC; &bogus;"), "a & b <c> é€ &bogus;");
+  });
+
+  it("splits Markdown at top-level headings and drops link targets", async () => {
+    const md = "Intro line\n# Cells\nSee [the atlas](http://x.test).\n### Detail\nmore\n## Energy\n![img](a.png)ATP";
+    const { sections } = await markdownExtractor.extract(Buffer.from(md));
+    assert.deepEqual(sections, ["Intro line", "# Cells\nSee the atlas.\n### Detail\nmore", "## Energy\nATP"]);
+  });
+
+  it("splits HTML at h1/h2 and strips scripts and tags", async () => {
+    const html =
+      "<html><head><title>x</title></head><body><script>alert(1)</script>" +
+      "<h1>Cells</h1><p>Basic &amp; small</p><h2>Energy</h2><p>ATP</p></body></html>";
+    const { sections } = await htmlExtractor.extract(Buffer.from(html));
+    assert.deepEqual(sections, ["Cells\nBasic & small", "Energy\nATP"]);
+  });
+
+  it("splits plain text at form feeds", async () => {
+    const { sections } = await plainTextExtractor.extract(Buffer.from("page one\f\fpage two\n"));
+    assert.deepEqual(sections, ["page one", "page two"]);
+  });
+});
+
+describe("office extractors", () => {
+  it("splits a DOCX at page breaks, one line per paragraph", async () => {
+    const body =
+      "<w:body><w:p><w:r><w:t>First</w:t></w:r><w:r><w:t xml:space=\"preserve\"> page</w:t></w:r></w:p>" +
+      "<w:p><w:r><w:t>A &amp; B</w:t></w:r></w:p>" +
+      '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+      "<w:p><w:r><w:t>Second page</w:t></w:r></w:p></w:body>";
+    const buffer = await zipOf({ "word/document.xml": `<w:document>${body}</w:document>` });
+    const { sections } = await docxExtractor.extract(buffer);
+    assert.deepEqual(sections, ["First page\nA & B", "Second page"]);
+  });
+
+  it("keeps blank DOCX pages and counts a rendered explicit break once", async () => {
+    const text = (t: string) => `<w:p><w:r><w:t>${t}</w:t></w:r></w:p>`;
+    const pageBreak = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    const rendered = "<w:p><w:r><w:lastRenderedPageBreak/><w:t>Three</w:t></w:r></w:p>";
+    const body = text("One") + pageBreak + pageBreak + text("Two") + pageBreak + rendered;
+    const buffer = await zipOf({ "word/document.xml": `<w:document><w:body>${body}</w:body></w:document>` });
+    const { sections } = await docxExtractor.extract(buffer);
+    assert.deepEqual(sections, ["One", "", "Two", "Three"]);
+  });
+
+  it("reads PPTX slides in numeric order", async () => {
+    const slide = (text: string) => `<p:sld><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:sld>`;
+    const buffer = await zipOf({
+      "ppt/slides/slide10.xml": slide("Ten"),
+      "ppt/slides/slide2.xml": slide("Two"),
+      "ppt/slides/slide1.xml": slide("One"),
+    });
+    const { sections } = await pptxExtractor.extract(buffer);
+    assert.deepEqual(sections, ["One", "Two", "Ten"]);
+  });
+
+  it("rejects files that are not Office documents", async () => {
+    await assert.rejects(docxExtractor.extract(Buffer.from("not a zip")), /not a valid Office document/);
+    await assert.rejects(docxExtractor.extract(await zipOf({ "other.xml": "<x/>" })), /missing word\/document.xml/);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Material text extractors - one per file format, all returning text split into the
+ * format's natural units (pages, slides or sections) so retrieval can cite them.
+ */
+
+import { extname } from "node:path";
+import { pdfExtractor } from "./pdf.js";
+import { docxExtractor, pptxExtractor } from "./office.js";
+import { htmlExtractor, markdownExtractor, plainTextExtractor } from "./text.js";
+
+export type SectionUnit = "page" | "slide" | "section";
+
+export interface ExtractedDocument {
+  /** Text of each page/slide/section, in document order. */
+  sections: string[];
+}
+
+export interface Extractor {
+  /** Stored as `materials.format`. */
+  format: string;
+  /** What one extracted section is, for citations ("p. 3" vs "slide 3"). */
+  unit: SectionUnit;
+  extensions: string[];
+  mimeTypes: string[];
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
+
+export const extractors: Extractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  pptxExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  plainTextExtractor,
+];
+
+/**
+ * The extractor for an upload. The file extension decides, since browsers report
+ * generic or empty MIME types for Markdown and Office files; the MIME type is the fallback.
+ */
+export function findExtractor(fileName: string, mimeType: string): Extractor | null {
+  const ext = extname(fileName).toLowerCase();
+  return (
+    extractors.find((e) => e.extensions.includes(ext)) ??
+    extractors.find((e) => e.mimeTypes.includes(mimeType)) ??
+    null
+  );
+}
+
+export const SUPPORTED_EXTENSIONS = extractors.flatMap((e) => e.extensions);
+
+/** The section unit of a stored material format (legacy rows without one are PDFs). */
+export function sectionUnit(format: string | null): SectionUnit {
+  return extractors.find((e) => e.format === format)?.unit ?? "page";
+}
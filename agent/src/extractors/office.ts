@@ -0,0 +1,70 @@
+/** Office Open XML extraction - DOCX split at page breaks, PPTX one section per slide. */
+
+import JSZip from "jszip";
+import type { Extractor } from "./index.js";
+import { decodeEntities } from "./text.js";
+
+/** Text runs of an OOXML part, one line per paragraph. */
+function paragraphsOf(xml: string, paragraphTag: string, textTag: string): string[] {
+  const textPattern = new RegExp(`<${textTag}(?:\\s[^>]*)?>([^<]*)</${textTag}>`, "g");
+  return xml
+    .split(new RegExp(`</${paragraphTag}>`))
+    .map((para) => decodeEntities([...para.matchAll(textPattern)].map((m) => m[1]).join("")).trim())
+    .filter(Boolean);
+}
+
+async function openZip(buffer: Buffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error("File is not a valid Office document");
+  }
+}
+
+export const docxExtractor: Extractor = {
+  format: "docx",
+  unit: "page",
+  extensions: [".docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+
+  async extract(buffer) {
+    const zip = await openZip(buffer);
+    const xml = await zip.file("word/document.xml")?.async("string");
+    if (xml === undefined) throw new Error("DOCX is missing word/document.xml");
+
+    // Explicit and last-rendered page breaks are the only page information a DOCX carries. Word
+    // also marks the page an explicit break starts, so that pair is a single boundary. Blank
+    // pages are kept so the page numbers of the ones after them stay right.
+    const explicitBreak = String.raw`<w:br\b[^>]*w:type="page"[^>]*\/>`;
+    const renderedBreak = String.raw`<w:lastRenderedPageBreak\/>`;
+    const pageBoundary = new RegExp(
+      `${explicitBreak}(?:(?!<w:t[\\s>])[^])*?${renderedBreak}|${explicitBreak}|${renderedBreak}`
+    );
+    const pages = xml
+      .split(pageBoundary)
+      .map((part) => paragraphsOf(part, "w:p", "w:t").join("\n"));
+    return { sections: pages };
+  },
+};
+
+export const pptxExtractor: Extractor = {
+  format: "pptx",
+  unit: "slide",
+  extensions: [".pptx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+
+  async extract(buffer) {
+    const zip = await openZip(buffer);
+    const slideNumber = (name: string) => Number(name.match(/slide(\d+)\.xml$/)![1]);
+    const slideFiles = Object.keys(zip.files)
+      .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+    const slides: string[] = [];
+    for (const name of slideFiles) {
+      const xml = await zip.file(name)!.async("string");
+      slides.push(paragraphsOf(xml, "a:p", "a:t").join("\n"));
+    }
+    return { sections: slides };
+  },
+};
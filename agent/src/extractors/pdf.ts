@@ -0,0 +1,30 @@
+/** PDF extraction - one section per page. */
+
+import pdfParse from "pdf-parse";
+import type { Extractor } from "./index.js";
+
+/** The part of pdf.js's page object that `pagerender` receives and we read. */
+interface PdfPage {
+  pageNumber: number;
+  getTextContent(): Promise<{ items: Array<{ str: string }> }>;
+}
+
+export const pdfExtractor: Extractor = {
+  format: "pdf",
+  unit: "page",
+  extensions: [".pdf"],
+  mimeTypes: ["application/pdf"],
+
+  async extract(buffer) {
+    const pages: string[] = [];
+    await pdfParse(buffer, {
+      pagerender: async (pageData: PdfPage) => {
+        const content = await pageData.getTextContent();
+        const text = content.items.map((item) => item.str).join(" ");
+        pages[pageData.pageNumber - 1] = text;
+        return text;
+      },
+    });
+    return { sections: Array.from(pages, (p) => p ?? "") };
+  },
+};
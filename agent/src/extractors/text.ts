@@ -0,0 +1,84 @@
+/** Text-based formats - Markdown and HTML split into heading sections, plain text at form feeds. */
+
+import type { Extractor } from "./index.js";
+
+/** Decode the XML/HTML character references that survive tag stripping. */
+export function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return named[ref.toLowerCase()] ?? match;
+  });
+}
+
+/** Split at lines matching `heading`, keeping each heading with the text under it. */
+function splitAtHeadings(text: string, heading: RegExp): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (heading.test(line) && current.some((l) => l.trim())) {
+      sections.push(current.join("\n").trim());
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.some((l) => l.trim())) sections.push(current.join("\n").trim());
+  return sections;
+}
+
+export const markdownExtractor: Extractor = {
+  format: "markdown",
+  unit: "section",
+  extensions: [".md", ".markdown"],
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+
+  async extract(buffer) {
+    const text = buffer
+      .toString("utf-8")
+      .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*/g, ""))
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
+    return { sections: splitAtHeadings(text, /^#{1,2}\s/) };
+  },
+};
+
+export const htmlExtractor: Extractor = {
+  format: "html",
+  unit: "section",
+  extensions: [".html", ".htm"],
+  mimeTypes: ["text/html"],
+
+  async extract(buffer) {
+    const text = buffer
+      .toString("utf-8")
+      .replace(/<(script|style|noscript|svg|head)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      // Mark section headings before the remaining tags are stripped
+      .replace(/<h[12]\b[^>]*>/gi, "\n\u0000")
+      .replace(/<\/(p|div|li|tr|h[1-6]|section|article|blockquote)>|<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, "");
+    const sections = splitAtHeadings(decodeEntities(text).replace(/[ \t]+/g, " "), /^\u0000/).map((s) =>
+      s.replace(/\u0000/g, "").replace(/\n{3,}/g, "\n\n").trim()
+    );
+    return { sections: sections.filter(Boolean) };
+  },
+};
+
+export const plainTextExtractor: Extractor = {
+  format: "text",
+  unit: "page",
+  extensions: [".txt", ".text"],
+  mimeTypes: ["text/plain"],
+
+  async extract(buffer) {
+    const sections = buffer
+      .toString("utf-8")
+      .split("\f")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    return { sections };
+  },
+};
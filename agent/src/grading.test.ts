@@ -0,0 +1,168 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gradeAnswer, hasGrader, registerGrader, type GradableQuestion } from "./grading.js";
+
+const question = (overrides: Partial<GradableQuestion>): GradableQuestion => ({
+  question_type: "mcq",
+  options: null,
+  correct_answer: "",
+  marks: 4,
+  ...overrides,
+});
+
+describe("mcq and true_false", () => {
+  it("accept the correct choice regardless of case and surrounding space", () => {
+    assert.deepEqual(gradeAnswer(question({ correct_answer: "B" }), " b "), {
+      isCorrect: true,
+      marksAwarded: 4,
+      feedback: "Correct!",
+    });
+    const trueFalse = question({ question_type: "true_false", correct_answer: "True" });
+    assert.equal(gradeAnswer(trueFalse, "true").isCorrect, true);
+  });
+
+  it("give nothing for a wrong choice and name the right one", () => {
+    const result = gradeAnswer(question({ question_type: "true_false", correct_answer: "False" }), "True");
+    assert.equal(result.marksAwarded, 0);
+    assert.equal(result.feedback, "Incorrect. The correct answer is: False");
+  });
+});
+
+describe("fill_in_blank", () => {
+  it("accepts any of the acceptable answers", () => {
+    const q = question({
+      question_type: "fill_in_blank",
+      correct_answer: "Paris",
+      options: { acceptable: ["Paris", "Paree"] },
+    });
+    assert.equal(gradeAnswer(q, "PAREE").marksAwarded, 4);
+    assert.equal(gradeAnswer(q, "Lyon").marksAwarded, 0);
+  });
+
+  it("falls back to the correct answer without an acceptable list", () => {
+    const q = question({ question_type: "fill_in_blank", correct_answer: "Paris", options: { acceptable: [] } });
+    assert.equal(gradeAnswer(q, "paris").isCorrect, true);
+  });
+});
+
+describe("matching", () => {
+  const correct = JSON.stringify([
+    { left: "H2O", right: "Water" },
+    { left: "NaCl", right: "Salt" },
+  ]);
+
+  it("gives full marks when every pair matches, in any order", () => {
+    const answer = JSON.stringify([
+      { left: "nacl", right: "salt" },
+      { left: "H2O", right: "Water" },
+    ]);
+    assert.equal(gradeAnswer(question({ question_type: "matching", correct_answer: correct }), answer).marksAwarded, 4);
+  });
+
+  it("gives credit in proportion to the pairs matched", () => {
+    const answer = JSON.stringify([
+      { left: "H2O", right: "Water" },
+      { left: "NaCl", right: "Sugar" },
+    ]);
+    assert.deepEqual(gradeAnswer(question({ question_type: "matching", correct_answer: correct }), answer), {
+      isCorrect: false,
+      marksAwarded: 2,
+      feedback: "1/2 pairs correct.",
+    });
+  });
+
+  it("never counts an answer to a question without pairs as correct", () => {
+    const result = gradeAnswer(question({ question_type: "matching", correct_answer: "[]" }), "[]");
+    assert.equal(result.isCorrect, false);
+    assert.equal(result.marksAwarded, 0);
+  });
+});
+
+describe("ordering", () => {
+  const q = question({ question_type: "ordering", correct_answer: JSON.stringify(["a", "b", "c", "d"]) });
+
+  it("gives full marks for the correct order", () => {
+    assert.equal(gradeAnswer(q, JSON.stringify(["a", "b", "c", "d"])).isCorrect, true);
+  });
+
+  it("credits items in their correct position", () => {
+    assert.deepEqual(gradeAnswer(q, JSON.stringify(["a", "c", "b", "d"])), {
+      isCorrect: false,
+      marksAwarded: 2,
+      feedback: "Incorrect order. 2/4 items in the correct position.",
+    });
+  });
+
+  it("gives nothing for a shifted sequence or the wrong number of items", () => {
+    assert.equal(gradeAnswer(q, JSON.stringify(["d", "a", "b", "c"])).marksAwarded, 0);
+    assert.equal(gradeAnswer(q, JSON.stringify(["a", "b", "c"])).marksAwarded, 0);
+  });
+});
+
+describe("malformed answers", () => {
+  it("are rejected by the JSON-answer graders", () => {
+    const matching = gradeAnswer(question({ question_type: "matching", correct_answer: "[]" }), "not json");
+    assert.deepEqual(matching, {
+      isCorrect: false,
+      marksAwarded: 0,
+      feedback: "Invalid answer format for matching question.",
+    });
+    const ordering = gradeAnswer(question({ question_type: "ordering", correct_answer: '["a"]' }), '{"a": 1}');
+    assert.equal(ordering.feedback, "Invalid answer format for ordering question.");
+  });
+});
+
+describe("short_answer", () => {
+  const q = question({ question_type: "short_answer", correct_answer: "Plants convert sunlight into energy" });
+
+  it("gives full marks for the expected answer", () => {
+    assert.equal(gradeAnswer(q, "plants convert sunlight into energy").marksAwarded, 4);
+  });
+
+  it("gives half marks when a key word appears", () => {
+    const result = gradeAnswer({ ...q, marks: 3 }, "Something about sunlight");
+    assert.equal(result.isCorrect, false);
+    assert.equal(result.marksAwarded, 2);
+  });
+
+  it("gives nothing for an empty or unrelated answer", () => {
+    assert.equal(gradeAnswer(q, "").marksAwarded, 0);
+    assert.equal(gradeAnswer(q, "no idea").marksAwarded, 0);
+  });
+
+  it("scores against the rubric when the question has one", () => {
+    const rubric = {
+      criteria: [
+        { description: "Names the pigment", points: 2, keywords: ["chlorophyll"] },
+        { description: "Names the product", points: 2, keywords: ["glucose"] },
+      ],
+    };
+    const result = gradeAnswer({ ...q, rubric }, "Chlorophyll absorbs light");
+    assert.equal(result.marksAwarded, 2);
+    assert.deepEqual(
+      result.criteria?.map((c) => [c.criterion_id, c.marks_awarded]),
+      [
+        ["c1", 2],
+        ["c2", 0],
+      ]
+    );
+  });
+});
+
+describe("grader registry", () => {
+  it("falls back to the short-answer grader for unknown types", () => {
+    const q = question({ question_type: "essay", correct_answer: "Photosynthesis" });
+    assert.equal(hasGrader("essay"), false);
+    assert.equal(gradeAnswer(q, "photosynthesis").marksAwarded, 4);
+  });
+
+  it("uses a registered grader for its type", () => {
+    registerGrader("numeric_test", (q, answer) => {
+      const isCorrect = Number(answer) === Number(q.correct_answer);
+      return { isCorrect, marksAwarded: isCorrect ? q.marks : 0, feedback: null };
+    });
+    assert.equal(hasGrader("numeric_test"), true);
+    const q = question({ question_type: "numeric_test", correct_answer: "42" });
+    assert.equal(gradeAnswer(q, "42.0").isCorrect, true);
+  });
+});
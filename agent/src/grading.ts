@@ -0,0 +1,167 @@
+/** Grader registry - deterministic grading of one answer, keyed by `question_type`. */
+
+import { rubricSchema, scoreRubric, type CriterionScore, type Rubric } from "./rubric.js";
+
+export interface GradableQuestion {
+  question_type: string;
+  options: unknown;
+  correct_answer: string;
+  marks: number;
+  rubric?: unknown;
+}
+
+export interface GradeResult {
+  isCorrect: boolean;
+  marksAwarded: number;
+  feedback: string | null;
+  /** Per-criterion breakdown when the question is graded against a rubric. */
+  criteria?: CriterionScore[];
+}
+
+export type Grader = (q: GradableQuestion, answer: string) => GradeResult;
+
+const normalize = (s: string): string => s.trim().toLowerCase();
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Award marks in proportion to the parts the student got right. */
+function partial(q: GradableQuestion, right: number, total: number): { isCorrect: boolean; marksAwarded: number } {
+  const isCorrect = total > 0 && right === total;
+  const ratio = total > 0 ? right / total : 0;
+  return { isCorrect, marksAwarded: isCorrect ? q.marks : Math.round(q.marks * ratio) };
+}
+
+const exactChoice: Grader = (q, answer) => {
+  const isCorrect = normalize(answer) === normalize(q.correct_answer);
+  return {
+    isCorrect,
+    marksAwarded: isCorrect ? q.marks : 0,
+    feedback: isCorrect ? "Correct!" : `Incorrect. The correct answer is: ${q.correct_answer}`,
+  };
+};
+
+const fillInBlank: Grader = (q, answer) => {
+  const opts = q.options as { acceptable?: string[] } | null;
+  const acceptable = (opts?.acceptable?.length ? opts.acceptable : [q.correct_answer]).map(normalize);
+  const isCorrect = acceptable.includes(normalize(answer));
+  return {
+    isCorrect,
+    marksAwarded: isCorrect ? q.marks : 0,
+    feedback: isCorrect ? "Correct!" : `Incorrect. Acceptable answers: ${acceptable.join(", ")}`,
+  };
+};
+
+const matching: Grader = (q, answer) => {
+  const studentPairs = parseJson(answer);
+  const correctPairs = parseJson(q.correct_answer);
+  if (!Array.isArray(studentPairs) || !Array.isArray(correctPairs)) {
+    return { isCorrect: false, marksAwarded: 0, feedback: "Invalid answer format for matching question." };
+  }
+
+  let matchCount = 0;
+  for (const cp of correctPairs as Array<{ left?: string; right?: string }>) {
+    const match = (studentPairs as Array<{ left?: string; right?: string }>).some(
+      (sp) =>
+        normalize(sp?.left ?? "") === normalize(cp.left ?? "") &&
+        normalize(sp?.right ?? "") === normalize(cp.right ?? "")
+    );
+    if (match) matchCount++;
+  }
+
+  const result = partial(q, matchCount, correctPairs.length);
+  return {
+    ...result,
+    feedback: result.isCorrect
+      ? "Correct! All pairs matched."
+      : `${matchCount}/${correctPairs.length} pairs correct.`,
+  };
+};
+
+const ordering: Grader = (q, answer) => {
+  const studentOrder = parseJson(answer);
+  const correctOrder = parseJson(q.correct_answer);
+  if (!Array.isArray(studentOrder) || !Array.isArray(correctOrder)) {
+    return { isCorrect: false, marksAwarded: 0, feedback: "Invalid answer format for ordering question." };
+  }
+
+  const inPlace =
+    studentOrder.length === correctOrder.length
+      ? correctOrder.filter((v, i) => studentOrder[i] === v).length
+      : 0;
+
+  const result = partial(q, inPlace, correctOrder.length);
+  return {
+    ...result,
+    feedback: result.isCorrect
+      ? "Correct order!"
+      : `Incorrect order. ${inPlace}/${correctOrder.length} items in the correct position.`,
+  };
+};
+
+/** Rubric grading - the sum of per-criterion keyword scores. */
+function gradeWithRubric(q: GradableQuestion, rubric: Rubric, answer: string): GradeResult {
+  const criteria = scoreRubric(rubric, answer);
+  const marksAwarded = Math.min(q.marks, criteria.reduce((sum, c) => sum + c.marks_awarded, 0));
+  return {
+    isCorrect: marksAwarded === q.marks,
+    marksAwarded,
+    feedback: criteria.map((c) => `${c.feedback} (${c.marks_awarded}/${c.max_points})`).join("\n"),
+    criteria,
+  };
+}
+
+/**
+ * Short answer - rubric scoring when the question has one, otherwise basic keyword
+ * evaluation (the AI agent can provide a better one).
+ */
+const shortAnswer: Grader = (q, answer) => {
+  const rubric = q.rubric ? rubricSchema.safeParse(q.rubric) : null;
+  if (rubric?.success) return gradeWithRubric(q, rubric.data, answer);
+
+  const studentLower = normalize(answer);
+  const correctLower = normalize(q.correct_answer);
+  if (studentLower === correctLower) {
+    return { isCorrect: true, marksAwarded: q.marks, feedback: "Correct!" };
+  }
+  if (
+    studentLower.length > 0 &&
+    correctLower.split(" ").filter((w) => w.length > 3).some((word) => studentLower.includes(word))
+  ) {
+    return {
+      isCorrect: false,
+      marksAwarded: Math.ceil(q.marks * 0.5),
+      feedback: `Partial credit. Expected: ${q.correct_answer}`,
+    };
+  }
+  return { isCorrect: false, marksAwarded: 0, feedback: `Incorrect. Expected: ${q.correct_answer}` };
+};
+
+const graders = new Map<string, Grader>([
+  ["mcq", exactChoice],
+  ["true_false", exactChoice],
+  ["fill_in_blank", fillInBlank],
+  ["matching", matching],
+  ["ordering", ordering],
+  ["short_answer", shortAnswer],
+]);
+
+/** Register (or replace) the grader for a question type. */
+export function registerGrader(questionType: string, grader: Grader): void {
+  graders.set(questionType, grader);
+}
+
+export function hasGrader(questionType: string): boolean {
+  return graders.has(questionType);
+}
+
+/** Grade one answer. Unknown question types fall back to the short-answer grader. */
+export function gradeAnswer(q: GradableQuestion, answer: string): GradeResult {
+  const grader = graders.get(q.question_type) ?? shortAnswer;
+  return grader(q, answer ?? "");
+}
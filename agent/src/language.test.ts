@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectLanguage } from "./language.js";
+
+describe("detectLanguage", () => {
+  it("recognises the languages it models", () => {
+    assert.equal(
+      detectLanguage(
+        "The cell is the basic unit of life, and this is true for all of the organisms that we know. " +
+          "It is in the cell that energy is made for the body, with help from the mitochondria."
+      ),
+      "en"
+    );
+    assert.equal(
+      detectLanguage(
+        "La célula es la unidad básica de la vida y los organismos que se conocen están formados por " +
+          "una o más células, en las que se produce la energía para el cuerpo con la ayuda de las mitocondrias."
+      ),
+      "es"
+    );
+    assert.equal(
+      detectLanguage(
+        "Die Zelle ist die kleinste Einheit des Lebens und die Organismen, die wir kennen, bestehen aus " +
+          "einer oder mehreren Zellen, in denen mit der Hilfe von Mitochondrien die Energie für den Körper entsteht."
+      ),
+      "de"
+    );
+  });
+
+  it("returns null for short text", () => {
+    assert.equal(detectLanguage("The cell is the unit of life."), null);
+  });
+
+  it("returns null when no modelled language clearly matches", () => {
+    assert.equal(detectLanguage(Array.from({ length: 40 }, (_, i) => `xq${i}zz`).join(" ")), null);
+  });
+});
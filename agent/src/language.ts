@@ -0,0 +1,37 @@
+/** Lightweight language detection for extracted material text, by common-word frequency. */
+
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "it", "for", "are", "with", "as", "this", "was", "on"],
+  es: ["el", "la", "de", "que", "y", "en", "los", "se", "del", "las", "por", "un", "para", "con", "una"],
+  fr: ["le", "la", "de", "et", "les", "des", "est", "en", "un", "une", "du", "que", "dans", "pour", "pas"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "zu", "den", "mit", "von", "sich", "des", "auf", "eine"],
+  pt: ["o", "de", "que", "e", "do", "da", "em", "um", "para", "com", "os", "uma", "no", "na", "por"],
+  it: ["il", "di", "che", "e", "la", "per", "un", "non", "sono", "una", "del", "della", "con", "gli", "le"],
+};
+
+/** Words sampled from the start of the text; enough to decide, cheap on 50 MB uploads. */
+const SAMPLE_WORDS = 2000;
+
+/**
+ * The ISO 639-1 code of the most likely language among those we know, or null when the
+ * text is too short or matches none of them clearly.
+ */
+export function detectLanguage(text: string): string | null {
+  const words = (text.toLowerCase().match(/\p{L}+/gu) ?? []).slice(0, SAMPLE_WORDS);
+  if (words.length < 20) return null;
+
+  const counts = new Map<string, number>();
+  for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [lang, common] of Object.entries(COMMON_WORDS)) {
+    const score = common.reduce((sum, w) => sum + (counts.get(w) ?? 0), 0) / words.length;
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  }
+  // Below this share of common words the text is likely a language we do not model
+  return bestScore >= 0.05 ? best : null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Live session events - the durable broadcast log behind the SSE streams.
+ *
+ * Every broadcast is appended to `live_events` with a per-session sequence number that
+ * doubles as the SSE event id, so a client reconnecting to any app instance replays what
+ * it missed from its `Last-Event-ID`. A pub/sub bus only wakes the instances holding
+ * streams for a session; they then read the new events from the log. `LIVE_PUBSUB=postgres`
+ * (default) uses LISTEN/NOTIFY so replicas share sessions; `memory` is for a single process.
+ */
+
+import { and, asc, eq, gt, sql } from "drizzle-orm";
+import { createListenerClient, db, notify } from "./db/index.js";
+import { liveEvents, liveSessions } from "./db/schema.js";
+
+export interface LiveEvent {
+  seq: number;
+  event: string;
+  data: unknown;
+}
+
+// ── Pub/Sub Bus ──
+
+interface LiveBus {
+  name: string;
+  /** Connect to the broker; called once at startup. */
+  start(): Promise<void>;
+  /** Tell every instance that `sessionId` has new events. */
+  publish(sessionId: string): Promise<void>;
+  /** Call `wake` whenever `sessionId` may have new events; returns the unsubscribe function. */
+  subscribe(sessionId: string, wake: () => void): () => void;
+}
+
+/** Local wake-up registry shared by both buses. */
+function createListeners() {
+  const listeners = new Map<string, Set<() => void>>();
+  return {
+    add(sessionId: string, wake: () => void): () => void {
+      const set = listeners.get(sessionId) ?? new Set();
+      set.add(wake);
+      listeners.set(sessionId, set);
+      return () => {
+        set.delete(wake);
+        if (set.size === 0) listeners.delete(sessionId);
+      };
+    },
+    wake(sessionId: string): void {
+      for (const fn of listeners.get(sessionId) ?? []) fn();
+    },
+    wakeAll(): void {
+      for (const sessionId of listeners.keys()) this.wake(sessionId);
+    },
+  };
+}
+
+function createMemoryBus(): LiveBus {
+  const listeners = createListeners();
+  return {
+    name: "memory",
+    async start() {},
+    async publish(sessionId) {
+      listeners.wake(sessionId);
+    },
+    subscribe: (sessionId, wake) => listeners.add(sessionId, wake),
+  };
+}
+
+const NOTIFY_CHANNEL = "live_events";
+const RECONNECT_DELAY_MS = 2000;
+
+function createPostgresBus(): LiveBus {
+  const listeners = createListeners();
+
+  function scheduleReconnect(): void {
+    setTimeout(() => {
+      connect()
+        // Notifications sent while disconnected are lost; have every stream re-read the log
+        .then(() => listeners.wakeAll())
+        .catch((err) => {
+          console.error("Live event listener reconnect failed:", err.message);
+          scheduleReconnect();
+        });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  async function connect(): Promise<void> {
+    const client = createListenerClient();
+    let connected = false;
+    let dropped = false;
+    const drop = (err?: Error) => {
+      if (dropped || !connected) return;
+      dropped = true;
+      console.error("Live event listener disconnected:", err?.message ?? "connection ended");
+      client.end().catch(() => {});
+      scheduleReconnect();
+    };
+    client.on("error", drop);
+    client.on("end", () => drop());
+    client.on("notification", (msg) => {
+      if (msg.channel === NOTIFY_CHANNEL && msg.payload) listeners.wake(msg.payload);
+    });
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      connected = true;
+    } catch (err) {
+      client.end().catch(() => {});
+      throw err;
+    }
+  }
+
+  return {
+    name: "postgres",
+    start: connect,
+    async publish(sessionId) {
+      await notify(NOTIFY_CHANNEL, sessionId);
+    },
+    subscribe: (sessionId, wake) => listeners.add(sessionId, wake),
+  };
+}
+
+const buses: Record<string, () => LiveBus> = {
+  postgres: createPostgresBus,
+  memory: createMemoryBus,
+};
+
+let active: LiveBus | null = null;
+
+/** The bus selected by `LIVE_PUBSUB` (default `postgres`). */
+export function getLiveBus(): LiveBus {
+  if (!active) {
+    const name = process.env.LIVE_PUBSUB ?? "postgres";
+    const create = buses[name];
+    if (!create) {
+      throw new Error(`Unknown LIVE_PUBSUB "${name}" (expected one of: ${Object.keys(buses).join(", ")})`);
+    }
+    active = create();
+  }
+  return active;
+}
+
+// ── Event Log ──
+
+/**
+ * Append an event to a session's log and wake its subscribers. The session row is locked
+ * while the sequence number is taken, so events commit in sequence order and a reader
+ * never sees seq N+1 before N.
+ */
+export async function publishLiveEvent(sessionId: string, event: string, data: unknown): Promise<LiveEvent> {
+  const seq = await db.transaction(async (tx) => {
+    const [session] = await tx
+      .update(liveSessions)
+      .set({ last_event_seq: sql`${liveSessions.last_event_seq} + 1`, updated_at: new Date() })
+      .where(eq(liveSessions.id, sessionId))
+      .returning({ seq: liveSessions.last_event_seq });
+    if (!session) throw new Error(`Live session ${sessionId} not found`);
+    await tx.insert(liveEvents).values({ session_id: sessionId, seq: session.seq, event, data });
+    return session.seq;
+  });
+  await getLiveBus().publish(sessionId);
+  return { seq, event, data };
+}
+
+export async function liveEventsSince(sessionId: string, afterSeq: number): Promise<LiveEvent[]> {
+  return db
+    .select({ seq: liveEvents.seq, event: liveEvents.event, data: liveEvents.data })
+    .from(liveEvents)
+    .where(and(eq(liveEvents.session_id, sessionId), gt(liveEvents.seq, afterSeq)))
+    .orderBy(asc(liveEvents.seq));
+}
+
+/**
+ * Deliver a session's events after `afterSeq` in order - first the backlog, then new ones
+ * as they are published on any instance. Returns the function that stops following.
+ */
+export function followLiveEvents(
+  sessionId: string,
+  afterSeq: number,
+  onEvent: (event: LiveEvent) => void
+): () => void {
+  let cursor = afterSeq;
+  let stopped = false;
+  let reading = false;
+  let again = false;
+
+  // Reads never overlap; a wake-up during a read just triggers one more read after it
+  const read = async (): Promise<void> => {
+    if (reading) {
+      again = true;
+      return;
+    }
+    reading = true;
+    try {
+      do {
+        again = false;
+        for (const e of await liveEventsSince(sessionId, cursor)) {
+          if (stopped) return;
+          cursor = e.seq;
+          onEvent(e);
+        }
+      } while (again && !stopped);
+    } catch (err) {
+      console.error(`Reading live events for ${sessionId} failed:`, err);
+    } finally {
+      reading = false;
+    }
+  };
+
+  // Subscribe before the first read so nothing published in between is missed
+  const unsubscribe = getLiveBus().subscribe(sessionId, () => void read());
+  void read();
+  return () => {
+    stopped = true;
+    unsubscribe();
+  };
+}
+
+/** Render an event in the SSE wire format, with its sequence number as the event id. */
+export function formatLiveEvent(e: LiveEvent): string {
+  return `id: ${e.seq}\nevent: ${e.event}\ndata: ${JSON.stringify(e.data)}\n\n`;
+}
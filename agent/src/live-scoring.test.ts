@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { POINTS_PER_MARK, scoreLiveAnswer, speedFactor, streakMultiplier, teamScore } from "./live-scoring.js";
+
+describe("speedFactor", () => {
+  it("is 1 for an instant answer and 0.5 at the time limit", () => {
+    assert.equal(speedFactor(0, 20_000), 1);
+    assert.equal(speedFactor(10_000, 20_000), 0.75);
+    assert.equal(speedFactor(20_000, 20_000), 0.5);
+  });
+
+  it("clamps answers outside the timer", () => {
+    assert.equal(speedFactor(30_000, 20_000), 0.5);
+    assert.equal(speedFactor(-500, 20_000), 1);
+  });
+
+  it("is 1 when there is no time limit", () => {
+    assert.equal(speedFactor(5_000, 0), 1);
+  });
+});
+
+describe("streakMultiplier", () => {
+  it("adds 0.1 per correct answer after the first", () => {
+    assert.equal(streakMultiplier(0), 1);
+    assert.equal(streakMultiplier(1), 1);
+    assert.equal(streakMultiplier(3), 1.2);
+  });
+
+  it("stops at 1.5", () => {
+    assert.equal(streakMultiplier(6), 1.5);
+    assert.equal(streakMultiplier(50), 1.5);
+  });
+});
+
+describe("scoreLiveAnswer", () => {
+  const base = { isCorrect: true, marksAwarded: 1, timeTakenMs: 0, timeLimitMs: 20_000, previousStreak: 0 };
+
+  it("gives full points for an instant first correct answer", () => {
+    assert.deepEqual(scoreLiveAnswer(base), { points: POINTS_PER_MARK, streak: 1, multiplier: 1 });
+  });
+
+  it("scales by marks, speed and streak", () => {
+    assert.equal(scoreLiveAnswer({ ...base, marksAwarded: 2, timeTakenMs: 20_000, previousStreak: 2 }).points, 1200);
+  });
+
+  it("resets the streak on a wrong answer and scores nothing", () => {
+    assert.deepEqual(scoreLiveAnswer({ ...base, isCorrect: false, marksAwarded: 0, previousStreak: 4 }), {
+      points: 0,
+      streak: 0,
+      multiplier: 1,
+    });
+  });
+
+  it("scores partial credit without extending the streak", () => {
+    const partial = scoreLiveAnswer({ ...base, isCorrect: false, marksAwarded: 0.5, previousStreak: 3 });
+    assert.equal(partial.points, 500);
+    assert.equal(partial.streak, 0);
+  });
+});
+
+describe("teamScore", () => {
+  const members = [
+    { points: 1000, score: 1 },
+    { points: 500, score: 2 },
+    { points: 0, score: 0 },
+  ];
+
+  it("adds members' points and marks under sum", () => {
+    assert.deepEqual(teamScore(members, "sum"), { points: 1500, score: 3 });
+  });
+
+  it("averages members' points and marks under average", () => {
+    assert.deepEqual(teamScore(members, "average"), { points: 500, score: 1 });
+    assert.deepEqual(teamScore([{ points: 333, score: 1 }, { points: 334, score: 0 }], "average"), {
+      points: 334,
+      score: 0.5,
+    });
+  });
+
+  it("scores an empty team 0", () => {
+    assert.deepEqual(teamScore([], "average"), { points: 0, score: 0 });
+    assert.deepEqual(teamScore([], "sum"), { points: 0, score: 0 });
+  });
+});
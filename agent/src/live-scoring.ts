@@ -0,0 +1,75 @@
+/** Live game scoring - points for correct answers, weighted by speed and answer streaks. */
+
+/** Points for an instant, fully correct answer, per mark the question is worth. */
+export const POINTS_PER_MARK = 1000;
+
+/** Share of the points still earned by an answer given as the timer runs out. */
+const MIN_SPEED_FACTOR = 0.5;
+
+/** Bonus per consecutive correct answer after the first, and the multiplier's ceiling. */
+const STREAK_STEP = 0.1;
+const MAX_STREAK_MULTIPLIER = 1.5;
+
+/** 1 for an instant answer, falling linearly to MIN_SPEED_FACTOR at the time limit. */
+export function speedFactor(timeTakenMs: number, timeLimitMs: number): number {
+  if (timeLimitMs <= 0) return 1;
+  const used = Math.min(Math.max(timeTakenMs / timeLimitMs, 0), 1);
+  return 1 - used * (1 - MIN_SPEED_FACTOR);
+}
+
+/** Multiplier for an answer that extends a streak to `streak` correct answers in a row. */
+export function streakMultiplier(streak: number): number {
+  return Math.min(1 + Math.max(streak - 1, 0) * STREAK_STEP, MAX_STREAK_MULTIPLIER);
+}
+
+export interface LiveAnswerScore {
+  points: number;
+  /** Correct answers in a row, including this one; 0 after a wrong answer. */
+  streak: number;
+  multiplier: number;
+}
+
+/**
+ * Score one live answer. Partial credit earns speed-weighted points but, not being fully
+ * correct, ends the streak.
+ */
+export function scoreLiveAnswer(opts: {
+  isCorrect: boolean;
+  marksAwarded: number;
+  timeTakenMs: number;
+  timeLimitMs: number;
+  previousStreak: number;
+}): LiveAnswerScore {
+  const streak = opts.isCorrect ? opts.previousStreak + 1 : 0;
+  const multiplier = opts.isCorrect ? streakMultiplier(streak) : 1;
+  const points =
+    opts.marksAwarded > 0
+      ? Math.round(POINTS_PER_MARK * opts.marksAwarded * speedFactor(opts.timeTakenMs, opts.timeLimitMs) * multiplier)
+      : 0;
+  return { points, streak, multiplier };
+}
+
+// ── Teams ──
+
+/** How a team's score is built from its members': the mean keeps uneven teams comparable. */
+export const TEAM_SCORING_MODES = ["average", "sum"] as const;
+
+export type TeamScoring = (typeof TEAM_SCORING_MODES)[number];
+
+export function isTeamScoring(value: unknown): value is TeamScoring {
+  return typeof value === "string" && (TEAM_SCORING_MODES as readonly string[]).includes(value);
+}
+
+/** A team's points and marks from its members' totals; a team with no members scores 0. */
+export function teamScore(
+  members: Array<{ points: number; score: number }>,
+  scoring: TeamScoring
+): { points: number; score: number } {
+  const points = members.reduce((sum, m) => sum + m.points, 0);
+  const score = members.reduce((sum, m) => sum + m.score, 0);
+  if (scoring === "sum" || members.length === 0) return { points, score };
+  return {
+    points: Math.round(points / members.length),
+    score: Math.round((score / members.length) * 100) / 100,
+  };
+}
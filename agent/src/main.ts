@@ -1,35 +1,70 @@
 /** Smart Quiz Management System - main entry point with Express server + agent. */
 
-import { readFileSync, existsSync, mkdirSync } from "node:fs";
-import { resolve, dirname } from "node:path";
+import { readFileSync, existsSync, mkdirSync, createReadStream } from "node:fs";
+import { readFile, readdir, rm, stat } from "node:fs/promises";
+import { resolve, dirname, join, extname } from "node:path";
+import { tmpdir } from "node:os";
 import { fileURLToPath } from "node:url";
-import { randomBytes } from "node:crypto";
+import { randomBytes, createHash, createHmac, timingSafeEqual } from "node:crypto";
 import express from "express";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import multer from "multer";
-import pdfParse from "pdf-parse";
-import { query, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
-import type { Options } from "@anthropic-ai/claude-agent-sdk";
-import { eq, desc, and, count, sql, inArray } from "drizzle-orm";
+import { eq, desc, and, or, count, sql, inArray, lt, lte, ne, isNull, isNotNull } from "drizzle-orm";
 
-import { buildQuizAgentPrompt } from "./prompts.js";
-import { allTools } from "./tools/index.js";
+import { QUESTION_TYPES, validateQuestion, type QuestionInput, type QuestionType } from "./question-types.js";
+import { gradeAnswer } from "./grading.js";
+import { applyReportedCriteria, type CriterionScore, type Rubric } from "./rubric.js";
+import {
+  parseAiEvaluation,
+  parseGeneratedQuiz,
+  AI_EVALUATION_FORMAT,
+  QUIZ_GENERATION_FORMAT,
+  type AiEvaluationResult,
+} from "./agent-results.js";
+import { canTransition, isLocked, publishTarget, type QuizStatus } from "./quiz-lifecycle.js";
+import {
+  SCORING_POLICIES,
+  isScoringPolicy,
+  countedResult,
+  countedResultsByStudent,
+  cooldownRemainingMinutes,
+  type CountedResult,
+  type ScoringPolicy,
+} from "./attempt-policy.js";
+import { getAgentProvider, type AgentRequest } from "./providers/index.js";
+import { findExtractor, sectionUnit, SUPPORTED_EXTENSIONS } from "./extractors/index.js";
+import { getStorage } from "./storage/index.js";
+import { detectLanguage } from "./language.js";
+import { bm25Rank, chunkPages, excerptLabel, excerptRef, formatExcerpts, type MaterialExcerpt } from "./retrieval.js";
 import { db, checkDatabaseConnection } from "./db/index.js";
+import { followLiveEvents, formatLiveEvent, getLiveBus, publishLiveEvent } from "./live-events.js";
+import { isTeamScoring, scoreLiveAnswer, teamScore, type TeamScoring } from "./live-scoring.js";
 import {
   organizations,
   users,
   topics,
   materials,
+  materialChunks,
   quizzes,
   questions,
   quizAttempts,
   studentAnswers,
   enrollments,
+  classes,
+  classStudents,
+  quizAssignments,
   conversations,
   messages,
   studentProfiles,
+  gradeAudits,
   leaderboardEntries,
+  liveSessions,
+  liveTeams,
+  liveParticipants,
+  liveAnswers,
+  liveEvents,
+  type LiveQuestionSnapshot,
 } from "./db/schema.js";
 import { runMigrations } from "./db/migrate.js";
 import { seedDatabase } from "./db/seed.js";
@@ -108,50 +143,766 @@ function roleMiddleware(...allowedRoles: string[]) {
 }
 
 // ── Live Quiz Session State ──
+// Sessions, participants and answers are kept in Postgres, so a running game survives a
+// restart and any app instance can serve it; broadcasts go through the live event log.
 
 interface LiveParticipant {
   userId: string;
   name: string;
   score: number;
-  answers: Array<{ questionIndex: number; answer: string; correct: boolean; time: number }>;
+  points: number;
+  streak: number;
+  joinedAt: Date;
+  /** Set as finalization saves the participant's attempt, then their rewards. */
+  attemptId: string | null;
+  xpEarned: number | null;
+  answers: Array<{
+    questionIndex: number;
+    answer: string;
+    correct: boolean;
+    marks: number;
+    points: number;
+    feedback: string | null;
+    criteria: CriterionScore[] | null;
+    time: number;
+  }>;
 }
 
 interface LiveSession {
+  id: string;
+  joinCode: string;
   quizId: string;
   teacherId: string;
   status: "waiting" | "question" | "results" | "ended";
   currentQuestionIndex: number;
   questionStartedAt: number;
   questionTimeLimit: number;
-  participants: Map<string, LiveParticipant>;
-  sseClients: express.Response[];
-  questions: Array<{
-    id: string;
-    question_text: string;
-    question_type: string;
-    options: unknown;
-    correct_answer: string;
-    marks: number;
-    difficulty: string;
-  }>;
+  /** When the current phase times out (ms); null when it waits for the host. */
+  phaseEndsAt: number | null;
+  pausedAt: number | null;
+  autoAdvanceSeconds: number | null;
+  /** Set in team mode. */
+  teamScoring: TeamScoring | null;
+  teamAssignment: "auto" | "choose" | null;
+  questions: LiveQuestionSnapshot[];
+  lastEventSeq: number;
 }
 
-const liveSessions = new Map<string, LiveSession>();
+/** Running sessions with no activity for this long are ended by the sweep. */
+const LIVE_SESSION_IDLE_MS = parseFloat(process.env.LIVE_SESSION_IDLE_HOURS ?? "12") * 60 * 60 * 1000;
+/** How long an ended session's event log is kept for clients still reconnecting. */
+const LIVE_EVENT_RETENTION_MS = 60 * 60 * 1000;
+/** Names given to teams when the host asks for a number of them rather than naming them. */
+const DEFAULT_TEAM_NAMES = "Red Blue Green Yellow Purple Orange Pink Teal Silver Gold Navy Lime".split(" ");
+const MAX_LIVE_TEAMS = DEFAULT_TEAM_NAMES.length;
 
 function generateJoinCode(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
 }
 
-function broadcastSSE(session: LiveSession, event: string, data: unknown): void {
-  const msg = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-  session.sseClients = session.sseClients.filter((res) => {
+/**
+ * The teams a host asked for: a count (named from DEFAULT_TEAM_NAMES) or a list of names.
+ * Returns null unless there are 2 to MAX_LIVE_TEAMS distinct names of 1-64 characters.
+ */
+function parseLiveTeamNames(value: unknown): string[] | null {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 2 && value <= MAX_LIVE_TEAMS ? DEFAULT_TEAM_NAMES.slice(0, value) : null;
+  }
+  if (!Array.isArray(value) || !value.every((n) => typeof n === "string")) return null;
+  const names = value.map((n: string) => n.trim());
+  if (names.length < 2 || names.length > MAX_LIVE_TEAMS) return null;
+  if (names.some((n) => n.length === 0 || n.length > 64)) return null;
+  if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) return null;
+  return names;
+}
+
+function toLiveSession(row: typeof liveSessions.$inferSelect): LiveSession {
+  return {
+    id: row.id,
+    joinCode: row.join_code,
+    quizId: row.quiz_id,
+    teacherId: row.teacher_id,
+    status: row.status as LiveSession["status"],
+    currentQuestionIndex: row.current_question_index,
+    questionStartedAt: row.question_started_at?.getTime() ?? 0,
+    questionTimeLimit: row.question_time_limit_ms / 1000,
+    phaseEndsAt: row.phase_ends_at?.getTime() ?? null,
+    pausedAt: row.paused_at?.getTime() ?? null,
+    autoAdvanceSeconds: row.auto_advance_seconds,
+    teamScoring: isTeamScoring(row.team_scoring) ? row.team_scoring : null,
+    teamAssignment: row.team_assignment as LiveSession["teamAssignment"],
+    questions: row.questions,
+    lastEventSeq: row.last_event_seq,
+  };
+}
+
+/** The session a join code points at: the running one, or else the one that ended last. */
+async function loadLiveSession(code: string): Promise<LiveSession | null> {
+  const [row] = await db
+    .select()
+    .from(liveSessions)
+    .where(eq(liveSessions.join_code, code))
+    .orderBy(desc(liveSessions.created_at))
+    .limit(1);
+  return row ? toLiveSession(row) : null;
+}
+
+/** The session behind `:code` if the caller hosts it; otherwise sends 404/403 and returns null. */
+async function loadHostedLiveSession(req: AuthRequest, res: express.Response): Promise<LiveSession | null> {
+  const session = await loadLiveSession(param(req, "code"));
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return null;
+  }
+  if (session.teacherId !== req.user!.userId) {
+    res.status(403).json({ error: "Not the session host" });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Move a session on, provided nobody else moved it first (another request or instance).
+ * Returns false when the session had already changed.
+ */
+async function advanceLiveSession(
+  session: LiveSession,
+  updates: Partial<typeof liveSessions.$inferInsert>
+): Promise<boolean> {
+  const [row] = await db
+    .update(liveSessions)
+    .set({ ...updates, updated_at: new Date() })
+    .where(
+      and(
+        eq(liveSessions.id, session.id),
+        eq(liveSessions.status, session.status),
+        eq(liveSessions.current_question_index, session.currentQuestionIndex),
+        session.pausedAt === null ? isNull(liveSessions.paused_at) : isNotNull(liveSessions.paused_at)
+      )
+    )
+    .returning({ id: liveSessions.id });
+  return !!row;
+}
+
+async function loadLiveParticipants(sessionId: string): Promise<LiveParticipant[]> {
+  const [people, answers] = await Promise.all([
+    db.select().from(liveParticipants).where(eq(liveParticipants.session_id, sessionId)),
+    db
+      .select()
+      .from(liveAnswers)
+      .where(eq(liveAnswers.session_id, sessionId))
+      .orderBy(liveAnswers.question_index),
+  ]);
+  return people.map((p) => ({
+    userId: p.user_id,
+    name: p.name,
+    score: p.score,
+    points: p.points,
+    streak: p.streak,
+    joinedAt: p.joined_at,
+    attemptId: p.attempt_id,
+    xpEarned: p.xp_earned,
+    answers: answers
+      .filter((a) => a.user_id === p.user_id)
+      .map((a) => ({
+        questionIndex: a.question_index,
+        answer: a.answer_text,
+        correct: a.is_correct,
+        marks: a.marks_awarded,
+        points: a.points,
+        feedback: a.ai_feedback,
+        criteria: a.rubric_scores,
+        time: a.time_taken_ms / 1000,
+      })),
+  }));
+}
+
+/** Participants ranked by game points; marks break ties. */
+async function liveLeaderboard(sessionId: string) {
+  const rows = await db
+    .select({
+      user_id: liveParticipants.user_id,
+      name: liveParticipants.name,
+      team_id: liveParticipants.team_id,
+      team: liveTeams.name,
+      points: liveParticipants.points,
+      score: liveParticipants.score,
+      streak: liveParticipants.streak,
+    })
+    .from(liveParticipants)
+    .leftJoin(liveTeams, eq(liveTeams.id, liveParticipants.team_id))
+    .where(eq(liveParticipants.session_id, sessionId))
+    .orderBy(desc(liveParticipants.points), desc(liveParticipants.score), liveParticipants.joined_at);
+  return rows.map((p, i) => ({ rank: i + 1, ...p }));
+}
+
+type LiveLeaderboard = Awaited<ReturnType<typeof liveLeaderboard>>;
+
+/**
+ * Teams ranked by their members' points, combined as the session's team scoring says;
+ * null outside team mode. Ties keep the order the teams were created in.
+ */
+async function liveTeamLeaderboard(session: LiveSession, leaderboard: LiveLeaderboard) {
+  if (!session.teamScoring) return null;
+  const scoring = session.teamScoring;
+  const teams = await db
+    .select({ id: liveTeams.id, name: liveTeams.name })
+    .from(liveTeams)
+    .where(eq(liveTeams.session_id, session.id))
+    .orderBy(liveTeams.id);
+  return teams
+    .map((t) => {
+      const members = leaderboard.filter((p) => p.team_id === t.id);
+      return {
+        team_id: t.id,
+        name: t.name,
+        ...teamScore(members, scoring),
+        member_count: members.length,
+        members: members.map((m) => ({ user_id: m.user_id, name: m.name, points: m.points })),
+      };
+    })
+    .sort((a, b) => b.points - a.points || b.score - a.score)
+    .map((t, i) => ({ rank: i + 1, ...t }));
+}
+
+/** The individual leaderboard, plus the team one in team mode. */
+async function liveStandings(session: LiveSession) {
+  const leaderboard = await liveLeaderboard(session.id);
+  const teamLeaderboard = await liveTeamLeaderboard(session, leaderboard);
+  return { leaderboard, ...(teamLeaderboard ? { team_leaderboard: teamLeaderboard } : {}) };
+}
+
+/**
+ * What the reveal shows once a question closes: the correct answer, how the class
+ * answered, and the leaderboard after it. Choice questions list every option, chosen or not.
+ */
+async function liveQuestionResults(session: LiveSession, index: number) {
+  const q = session.questions[index];
+  const rows = await db
+    .select({ answer: liveAnswers.answer_text, correct: liveAnswers.is_correct, count: count() })
+    .from(liveAnswers)
+    .where(and(eq(liveAnswers.session_id, session.id), eq(liveAnswers.question_index, index)))
+    .groupBy(liveAnswers.answer_text, liveAnswers.is_correct);
+
+  const options = Array.isArray(q.options) ? (q.options as string[]) : [];
+  const distribution =
+    (q.question_type === "mcq" || q.question_type === "true_false") && options.length > 0
+      ? options.map((option) => ({
+          answer: option,
+          count: rows.filter((r) => r.answer === option).reduce((sum, r) => sum + r.count, 0),
+          correct: gradeAnswer(q, option).isCorrect,
+        }))
+      : rows
+          .map((r) => ({ answer: r.answer, count: r.count, correct: r.correct }))
+          .sort((a, b) => b.count - a.count);
+
+  return {
+    index,
+    total: session.questions.length,
+    correct_answer: q.correct_answer,
+    answered: rows.reduce((sum, r) => sum + r.count, 0),
+    correct_count: rows.filter((r) => r.correct).reduce((sum, r) => sum + r.count, 0),
+    distribution,
+    ...(await liveStandings(session)),
+  };
+}
+
+/** Per team, how many members have answered the current question. */
+async function liveTeamAnswerCounts(session: LiveSession) {
+  return db
+    .select({
+      team_id: liveTeams.id,
+      name: liveTeams.name,
+      answered: count(liveAnswers.id),
+      // At most one answer per member, so the join does not repeat members
+      total: count(liveParticipants.id),
+    })
+    .from(liveTeams)
+    .leftJoin(liveParticipants, eq(liveParticipants.team_id, liveTeams.id))
+    .leftJoin(
+      liveAnswers,
+      and(
+        eq(liveAnswers.session_id, liveParticipants.session_id),
+        eq(liveAnswers.user_id, liveParticipants.user_id),
+        eq(liveAnswers.question_index, session.currentQuestionIndex)
+      )
+    )
+    .where(eq(liveTeams.session_id, session.id))
+    .groupBy(liveTeams.id, liveTeams.name)
+    .orderBy(liveTeams.id);
+}
+
+async function liveParticipantCount(sessionId: string): Promise<number> {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(liveParticipants)
+    .where(eq(liveParticipants.session_id, sessionId));
+  return total;
+}
+
+async function broadcastSSE(session: LiveSession, event: string, data: unknown): Promise<void> {
+  await publishLiveEvent(session.id, event, data);
+}
+
+/**
+ * End sessions abandoned mid-game, finish finalizing any ended session that was not (an
+ * instance stopped in between), and drop event logs nobody can still be replaying.
+ */
+async function sweepLiveSessions(): Promise<void> {
+  const now = Date.now();
+  const abandoned = await db
+    .update(liveSessions)
+    .set({ status: "ended", phase_ends_at: null, ended_at: new Date(now), updated_at: new Date(now) })
+    .where(and(ne(liveSessions.status, "ended"), lt(liveSessions.updated_at, new Date(now - LIVE_SESSION_IDLE_MS))))
+    .returning({ join_code: liveSessions.join_code });
+  if (abandoned.length > 0) {
+    console.log(`Ended ${abandoned.length} idle live session(s): ${abandoned.map((s) => s.join_code).join(", ")}`);
+  }
+
+  const unfinalized = await db
+    .select()
+    .from(liveSessions)
+    .where(and(eq(liveSessions.status, "ended"), isNull(liveSessions.finalized_at)));
+  for (const row of unfinalized) {
+    await finalizeLiveSession(toLiveSession(row));
+  }
+
+  await db.delete(liveEvents).where(
+    inArray(
+      liveEvents.session_id,
+      db
+        .select({ id: liveSessions.id })
+        .from(liveSessions)
+        .where(and(eq(liveSessions.status, "ended"), lt(liveSessions.ended_at, new Date(now - LIVE_EVENT_RETENTION_MS))))
+    )
+  );
+}
+
+// ── Live Session Flow ──
+// Moving a game between phases - shared by the host's routes and the server-side timers,
+// which close questions and auto-advance reveals without anyone pressing a button.
+
+/** Answers arriving this long after the deadline still count, allowing for network latency. */
+const LIVE_ANSWER_GRACE_MS = 1000;
+/** How often each instance picks up phase deadlines set elsewhere (another instance, before a restart). */
+const LIVE_TIMER_SWEEP_MS = 5000;
+
+const liveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function scheduleLiveTimer(sessionId: string, endsAt: Date | null): void {
+  clearTimeout(liveTimers.get(sessionId));
+  liveTimers.delete(sessionId);
+  if (!endsAt) return;
+  const timer = setTimeout(() => {
+    liveTimers.delete(sessionId);
+    expireLivePhase(sessionId).catch((err) => console.error(`Live session ${sessionId} timer failed:`, err));
+  }, Math.max(endsAt.getTime() - Date.now(), 0));
+  liveTimers.set(sessionId, timer);
+}
+
+/**
+ * Close the open question into its reveal. Returns the results, or null when the session
+ * had already moved on (the host and a timer can race; only one of them wins).
+ */
+async function closeLiveQuestion(session: LiveSession) {
+  const index = session.currentQuestionIndex;
+  const advanceAt =
+    session.autoAdvanceSeconds !== null ? new Date(Date.now() + session.autoAdvanceSeconds * 1000) : null;
+  if (!(await advanceLiveSession(session, { status: "results", phase_ends_at: advanceAt }))) return null;
+
+  // Letting a question pass unanswered ends a streak too
+  await db
+    .update(liveParticipants)
+    .set({ streak: 0 })
+    .where(
+      and(
+        eq(liveParticipants.session_id, session.id),
+        sql`not exists (select 1 from ${liveAnswers} where ${liveAnswers.session_id} = ${liveParticipants.session_id} and ${liveAnswers.user_id} = ${liveParticipants.user_id} and ${liveAnswers.question_index} = ${index})`
+      )
+    );
+
+  const results = { ...(await liveQuestionResults(session, index)), auto_advance_at: advanceAt?.toISOString() ?? null };
+  await broadcastSSE(session, "question_results", results);
+  scheduleLiveTimer(session.id, advanceAt);
+  return results;
+}
+
+/** How long one finalization run holds its session before another instance may retry it. */
+const LIVE_FINALIZE_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Wrap up an ended session however it ended (last question, host, idle sweep, or a restart in
+ * between): save an attempt per participant over the questions actually asked, and run the same
+ * XP, streak, badge and leaderboard pipeline as a submitted quiz. Each participant's attempt and
+ * rewards are recorded as they are done, so a run that fails or dies partway is picked up by the
+ * sweep and carries on with the students still missing them; `finalized_at` is set only once
+ * every participant has both.
+ */
+async function finalizeLiveSession(session: LiveSession): Promise<void> {
+  // Take the lease so a racing host, timer or instance does not finalize alongside this run
+  const now = new Date();
+  const [claimed] = await db
+    .update(liveSessions)
+    .set({ finalizing_until: new Date(now.getTime() + LIVE_FINALIZE_LEASE_MS) })
+    .where(
+      and(
+        eq(liveSessions.id, session.id),
+        eq(liveSessions.status, "ended"),
+        isNull(liveSessions.finalized_at),
+        or(isNull(liveSessions.finalizing_until), lt(liveSessions.finalizing_until, now))
+      )
+    )
+    .returning({ ended_at: liveSessions.ended_at });
+  if (!claimed) return;
+
+  // Questions up to the one open when the game stopped; a session ended in the lobby asked none
+  const asked = session.questions.slice(0, Math.min(session.currentQuestionIndex + 1, session.questions.length));
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, session.quizId)).limit(1);
+  // The host paces a live game, so the quiz's own time limit says nothing about speed here
+  const liveQuiz = quiz ? { ...quiz, time_limit_minutes: null } : undefined;
+  const totalMarks = asked.reduce((sum, q) => sum + q.marks, 0);
+  const submittedAt = claimed.ended_at ?? now;
+  const rewards: Array<{
+    user_id: string;
+    xp_earned: number;
+    /** Null for students rewarded by an earlier, interrupted run. */
+    level: number | null;
+    leveled_up: boolean;
+    new_badges: string[];
+  }> = [];
+  let failed = 0;
+
+  for (const participant of asked.length > 0 ? await loadLiveParticipants(session.id) : []) {
     try {
-      res.write(msg);
-      return true;
-    } catch {
-      return false;
+      const answers = participant.answers.filter((a) => a.questionIndex < asked.length);
+      const score = answers.reduce((sum, a) => sum + a.marks, 0);
+      const pct = totalMarks > 0 ? Math.round((score / totalMarks) * 100 * 100) / 100 : 0;
+
+      let attemptId = participant.attemptId;
+      if (!attemptId) {
+        const newId = genId();
+        // The attempt and the participant's link to it commit together, so a retry never saves a second one
+        await db.transaction(async (tx) => {
+          await tx.insert(quizAttempts).values({
+            id: newId,
+            quiz_id: session.quizId,
+            student_id: participant.userId,
+            started_at: participant.joinedAt,
+            total_marks: totalMarks,
+            score,
+            percentage: String(pct),
+            status: "evaluated",
+            source: "live",
+            submitted_at: submittedAt,
+          });
+          if (answers.length > 0) {
+            await tx.insert(studentAnswers).values(
+              answers.map((ans) => ({
+                attempt_id: newId,
+                question_id: asked[ans.questionIndex].id,
+                answer_text: ans.answer,
+                is_correct: ans.correct,
+                marks_awarded: ans.marks,
+                ai_feedback: ans.feedback,
+                rubric_scores: ans.criteria,
+              }))
+            );
+          }
+          await tx
+            .update(liveParticipants)
+            .set({ attempt_id: newId })
+            .where(and(eq(liveParticipants.session_id, session.id), eq(liveParticipants.user_id, participant.userId)));
+        });
+        attemptId = newId;
+      }
+
+      if (participant.xpEarned !== null) {
+        rewards.push({
+          user_id: participant.userId,
+          xp_earned: participant.xpEarned,
+          level: null,
+          leveled_up: false,
+          new_badges: [],
+        });
+        continue;
+      }
+      const rewardedAttemptId = attemptId;
+      const participantRow = and(
+        eq(liveParticipants.session_id, session.id),
+        eq(liveParticipants.user_id, participant.userId)
+      );
+      // The XP marker commits with the rewards themselves, so a retried sweep can never award twice
+      const gamification = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .select({ xp_earned: liveParticipants.xp_earned })
+          .from(liveParticipants)
+          .where(participantRow)
+          .for("update");
+        if (!row || row.xp_earned !== null) return row?.xp_earned ?? 0;
+        const result = await rewardEvaluatedAttempt(
+          participant.userId,
+          liveQuiz,
+          {
+            id: rewardedAttemptId,
+            quiz_id: session.quizId,
+            started_at: participant.joinedAt,
+            submitted_at: submittedAt,
+            percentage: pct,
+            correct_count: answers.filter((a) => a.correct).length,
+          },
+          tx
+        );
+        await tx.update(liveParticipants).set({ xp_earned: result.gamification.xp_earned }).where(participantRow);
+        return result.gamification;
+      });
+      if (typeof gamification === "number") {
+        rewards.push({ user_id: participant.userId, xp_earned: gamification, level: null, leveled_up: false, new_badges: [] });
+        continue;
+      }
+      rewards.push({
+        user_id: participant.userId,
+        xp_earned: gamification.xp_earned,
+        level: gamification.level,
+        leveled_up: gamification.leveled_up,
+        new_badges: gamification.new_badges,
+      });
+    } catch (err) {
+      failed++;
+      console.error(`Finalizing live session ${session.id} for ${participant.userId} failed:`, err);
     }
+  }
+
+  if (failed > 0) {
+    // Release the lease so the next sweep retries the students still missing their attempt or XP
+    await db.update(liveSessions).set({ finalizing_until: null }).where(eq(liveSessions.id, session.id));
+    console.error(`Live session ${session.id}: ${failed} participant(s) not finalized; will retry`);
+    return;
+  }
+
+  await db
+    .update(liveSessions)
+    .set({ finalized_at: new Date(), finalizing_until: null })
+    .where(eq(liveSessions.id, session.id));
+  await broadcastSSE(session, "session_finalized", { rewards });
+}
+
+/**
+ * Open the next question with its own time limit, or finish the game after the last one.
+ * Returns null when the session had already moved on.
+ */
+async function openNextLiveQuestion(session: LiveSession, timeLimitMs = session.questionTimeLimit * 1000) {
+  const nextIndex = session.currentQuestionIndex + 1;
+  if (nextIndex >= session.questions.length) {
+    // Quiz is over
+    const ended = await advanceLiveSession(session, {
+      status: "ended",
+      current_question_index: nextIndex,
+      phase_ends_at: null,
+      ended_at: new Date(),
+    });
+    if (!ended) return null;
+    scheduleLiveTimer(session.id, null);
+    const standings = await liveStandings(session);
+    await broadcastSSE(session, "quiz_ended", standings);
+    await finalizeLiveSession(session);
+    return { status: "ended" as const, ...standings };
+  }
+
+  const startedAt = new Date();
+  const endsAt = new Date(startedAt.getTime() + timeLimitMs);
+  const advanced = await advanceLiveSession(session, {
+    status: "question",
+    current_question_index: nextIndex,
+    question_started_at: startedAt,
+    phase_ends_at: endsAt,
+  });
+  if (!advanced) return null;
+
+  const q = session.questions[nextIndex];
+  await broadcastSSE(session, "question", {
+    index: nextIndex,
+    total: session.questions.length,
+    question_text: q.question_text,
+    question_type: q.question_type,
+    options: q.options,
+    marks: q.marks,
+    difficulty: q.difficulty,
+    time_limit: Math.round(timeLimitMs / 1000),
+    ends_at: endsAt.toISOString(),
+  });
+  scheduleLiveTimer(session.id, endsAt);
+  return {
+    status: "question" as const,
+    question_index: nextIndex,
+    total_questions: session.questions.length,
+    time_limit: Math.round(timeLimitMs / 1000),
+    ends_at: endsAt.toISOString(),
+  };
+}
+
+/** A phase deadline passed: close the question, or move on from an auto-advancing reveal. */
+async function expireLivePhase(sessionId: string): Promise<void> {
+  const [row] = await db.select().from(liveSessions).where(eq(liveSessions.id, sessionId)).limit(1);
+  if (!row) return;
+  const session = toLiveSession(row);
+  if (session.pausedAt !== null || session.phaseEndsAt === null) return;
+  // Resumed elsewhere with a later deadline
+  if (session.phaseEndsAt > Date.now()) {
+    scheduleLiveTimer(session.id, row.phase_ends_at);
+    return;
+  }
+  if (session.status === "question") await closeLiveQuestion(session);
+  else if (session.status === "results") await openNextLiveQuestion(session);
+}
+
+/** Give this instance a timer for every running phase deadline, wherever it was set. */
+async function sweepLiveTimers(): Promise<void> {
+  const running = await db
+    .select({ id: liveSessions.id, phase_ends_at: liveSessions.phase_ends_at })
+    .from(liveSessions)
+    .where(and(ne(liveSessions.status, "ended"), isNull(liveSessions.paused_at), isNotNull(liveSessions.phase_ends_at)));
+  for (const s of running) {
+    if (!liveTimers.has(s.id)) scheduleLiveTimer(s.id, s.phase_ends_at);
+  }
+}
+
+// ── Live Session Reports ──
+
+/** One CSV line; every field is quoted so commas, quotes and line breaks in names survive. */
+function csvLine(fields: Array<string | number | null>): string {
+  return fields.map((f) => `"${String(f ?? "").replace(/"/g, '""')}"`).join(",");
+}
+
+/** Everything that happened in a session: per-student results and per-question stats. */
+async function liveSessionReport(session: LiveSession) {
+  const [[row], [quiz], people, answers, standings] = await Promise.all([
+    db.select().from(liveSessions).where(eq(liveSessions.id, session.id)).limit(1),
+    db.select({ title: quizzes.title }).from(quizzes).where(eq(quizzes.id, session.quizId)).limit(1),
+    db
+      .select()
+      .from(liveParticipants)
+      .where(eq(liveParticipants.session_id, session.id))
+      .orderBy(desc(liveParticipants.points), desc(liveParticipants.score), liveParticipants.joined_at),
+    db.select().from(liveAnswers).where(eq(liveAnswers.session_id, session.id)),
+    liveStandings(session),
+  ]);
+
+  const asked = session.questions.slice(0, Math.min(session.currentQuestionIndex + 1, session.questions.length));
+  const totalMarks = asked.reduce((sum, q) => sum + q.marks, 0);
+  const avgSeconds = (list: Array<{ time_taken_ms: number }>): number | null =>
+    list.length > 0
+      ? Math.round((list.reduce((sum, a) => sum + a.time_taken_ms, 0) / list.length / 1000) * 100) / 100
+      : null;
+
+  const participants = people.map((p, i) => {
+    const mine = answers.filter((a) => a.user_id === p.user_id && a.question_index < asked.length);
+    return {
+      rank: i + 1,
+      user_id: p.user_id,
+      name: p.name,
+      team: standings.team_leaderboard?.find((t) => t.team_id === p.team_id)?.name ?? null,
+      points: p.points,
+      score: p.score,
+      total_marks: totalMarks,
+      percentage: totalMarks > 0 ? Math.round((p.score / totalMarks) * 100 * 100) / 100 : 0,
+      answered: mine.length,
+      correct: mine.filter((a) => a.is_correct).length,
+      avg_response_seconds: avgSeconds(mine),
+      xp_earned: p.xp_earned,
+      attempt_id: p.attempt_id,
+      answers: mine
+        .sort((a, b) => a.question_index - b.question_index)
+        .map((a) => ({
+          question_index: a.question_index,
+          answer: a.answer_text,
+          correct: a.is_correct,
+          marks_awarded: a.marks_awarded,
+          points: a.points,
+          response_seconds: Math.round(a.time_taken_ms / 10) / 100,
+        })),
+    };
   });
+
+  return {
+    session_id: session.id,
+    join_code: session.joinCode,
+    quiz_id: session.quizId,
+    quiz_title: quiz?.title ?? null,
+    status: session.status,
+    started_at: row.created_at.toISOString(),
+    ended_at: row.ended_at?.toISOString() ?? null,
+    finalized: row.finalized_at !== null,
+    total_questions: session.questions.length,
+    questions_asked: asked.length,
+    participant_count: participants.length,
+    average_percentage:
+      participants.length > 0
+        ? Math.round((participants.reduce((sum, p) => sum + p.percentage, 0) / participants.length) * 100) / 100
+        : 0,
+    team_scoring: session.teamScoring,
+    teams: standings.team_leaderboard ?? null,
+    participants,
+    questions: asked.map((q, index) => {
+      const given = answers.filter((a) => a.question_index === index);
+      const correct = given.filter((a) => a.is_correct).length;
+      return {
+        index,
+        question_id: q.id,
+        question_text: q.question_text,
+        question_type: q.question_type,
+        correct_answer: q.correct_answer,
+        marks: q.marks,
+        answered: given.length,
+        correct_count: correct,
+        percent_correct: given.length > 0 ? Math.round((correct / given.length) * 100 * 100) / 100 : 0,
+        avg_response_seconds: avgSeconds(given),
+      };
+    }),
+  };
+}
+
+function liveSessionReportCsv(report: Awaited<ReturnType<typeof liveSessionReport>>): string {
+  const lines = [
+    csvLine([
+      "Rank",
+      "Name",
+      ...(report.teams ? ["Team"] : []),
+      "Points",
+      "Marks",
+      "Total Marks",
+      "Percentage",
+      "Answered",
+      "Correct",
+      "Avg Response (s)",
+      "XP Earned",
+      ...report.questions.map((q) => `Q${q.index + 1}`),
+    ]),
+  ];
+  for (const p of report.participants) {
+    lines.push(
+      csvLine([
+        p.rank,
+        p.name,
+        ...(report.teams ? [p.team] : []),
+        p.points,
+        p.score,
+        p.total_marks,
+        p.percentage,
+        p.answered,
+        p.correct,
+        p.avg_response_seconds,
+        p.xp_earned,
+        ...report.questions.map((q) => p.answers.find((a) => a.question_index === q.index)?.marks_awarded ?? null),
+      ])
+    );
+  }
+  // Team standings follow as a second table, after a blank line
+  if (report.teams) {
+    const scoring = report.team_scoring;
+    lines.push("", csvLine(["Team Rank", "Team", `Points (${scoring})`, `Marks (${scoring})`, "Members"]));
+    for (const t of report.teams) lines.push(csvLine([t.rank, t.name, t.points, t.score, t.member_count]));
+  }
+  return lines.join("\n") + "\n";
 }
 
 // ── Gamification Helpers ──
@@ -181,7 +932,7 @@ const BADGE_DEFINITIONS: Record<string, { condition: string; icon: string }> = {
   comeback_kid: { condition: "Score 80%+ after scoring <40%", icon: "\u{1F4AA}" },
 };
 
-async function updateLeaderboard(userId: string, xpEarned: number): Promise<void> {
+async function updateLeaderboard(userId: string, xpEarned: number, executor: DbExecutor = db): Promise<void> {
   const now = new Date();
   const weekKey = getWeekKey(now);
   const monthKey = getMonthKey(now);
@@ -191,7 +942,7 @@ async function updateLeaderboard(userId: string, xpEarned: number): Promise<void
     ["monthly", monthKey],
     ["all_time", "all"],
   ] as const) {
-    const [existing] = await db
+    const [existing] = await executor
       .select()
       .from(leaderboardEntries)
       .where(
@@ -204,12 +955,12 @@ async function updateLeaderboard(userId: string, xpEarned: number): Promise<void
       .limit(1);
 
     if (existing) {
-      await db
+      await executor
         .update(leaderboardEntries)
         .set({ xp: existing.xp + xpEarned, updated_at: now })
         .where(eq(leaderboardEntries.id, existing.id));
     } else {
-      await db.insert(leaderboardEntries).values({
+      await executor.insert(leaderboardEntries).values({
         user_id: userId,
         period,
         period_key: periodKey,
@@ -219,92 +970,977 @@ async function updateLeaderboard(userId: string, xpEarned: number): Promise<void
   }
 }
 
-// ── File Upload Setup ──
-
-const UPLOADS_DIR = resolve(__dirname, "..", "uploads");
-if (!existsSync(UPLOADS_DIR)) mkdirSync(UPLOADS_DIR, { recursive: true });
+/** What an evaluated attempt earned, already saved to the student's profile and leaderboards. */
+interface AttemptRewards {
+  policy: ScoringPolicy;
+  counted: CountedResult;
+  attempts: number;
+  gamification: {
+    xp_earned: number;
+    xp_total: number;
+    level: number;
+    leveled_up: boolean;
+    streak: number;
+    new_badges: string[];
+    badges_total: number;
+  };
+}
 
-const upload = multer({
-  storage: multer.diskStorage({
-    destination: (_req, _file, cb) => cb(null, UPLOADS_DIR),
-    filename: (_req, file, cb) => cb(null, `${Date.now()}-${file.originalname}`),
-  }),
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50 MB
-  fileFilter: (_req, file, cb) => {
-    if (file.mimetype === "application/pdf") cb(null, true);
-    else cb(new Error("Only PDF files are allowed"));
+/**
+ * Run the gamification pipeline for an evaluated attempt: XP, daily streak, level, badges and
+ * leaderboard entries. Shared by quiz submission and live session finalization. Pass a
+ * transaction as `executor` to commit the rewards together with the caller's own writes.
+ */
+async function rewardEvaluatedAttempt(
+  userId: string,
+  quiz: typeof quizzes.$inferSelect | undefined,
+  attempt: {
+    id: string;
+    quiz_id: string;
+    started_at: Date;
+    submitted_at: Date;
+    percentage: number;
+    correct_count: number;
   },
-});
+  executor: DbExecutor = db
+): Promise<AttemptRewards> {
+  let xpEarned = 0;
+  const newBadges: string[] = [];
 
-// ── Agent Setup ──
+  // Ensure student profile exists
+  let [profile] = await executor
+    .select()
+    .from(studentProfiles)
+    .where(eq(studentProfiles.user_id, userId))
+    .limit(1);
 
-async function buildAgentOptions(): Promise<Options> {
-  const quizServer = createSdkMcpServer({
-    name: "quiz",
-    version: "1.0.0",
-    tools: allTools,
-  });
+  if (!profile) {
+    await executor.insert(studentProfiles).values({ user_id: userId });
+    [profile] = await executor
+      .select()
+      .from(studentProfiles)
+      .where(eq(studentProfiles.user_id, userId))
+      .limit(1);
+  }
 
-  return {
-    systemPrompt: buildQuizAgentPrompt(),
-    allowedTools: [
-      "Read",
-      "mcp__quiz__generate_quiz",
-      "mcp__quiz__evaluate_answers",
-      "mcp__quiz__get_performance_analytics",
-      "mcp__quiz__get_topic_insights",
-    ],
-    permissionMode: "bypassPermissions",
-    allowDangerouslySkipPermissions: true,
-    pathToClaudeCodeExecutable:
-      process.env.CLAUDE_CODE_PATH ?? "/Users/akshaygaykar/.local/bin/claude",
-    env: {
-      ...Object.fromEntries(
-        Object.entries(process.env).filter(
-          ([k]) =>
-            !["CLAUDECODE", "CLAUDE_CODE_ENTRYPOINT", "ANTHROPIC_MODEL", "ANTHROPIC_SMALL_FAST_MODEL"].includes(k)
+  // Retakes are scored against the quiz's attempt policy: only a rise in the counted result earns score XP
+  const policy = (quiz?.scoring_policy ?? "best") as ScoringPolicy;
+  const evaluatedAttempts = (
+    await executor
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.quiz_id, attempt.quiz_id),
+          eq(quizAttempts.student_id, userId),
+          eq(quizAttempts.status, "evaluated")
         )
-      ) as Record<string, string>,
-    },
-    mcpServers: { quiz: quizServer },
-    agents: {},
-    model: "claude-sonnet-4-5@20250929",
-  };
-}
-
-// ── Express App ──
-
-const app = express();
-app.use(express.json({ limit: "10mb" }));
-
-const HTML_PATH = resolve(__dirname, "..", "ui.html");
+      )
+  ).map((a) => ({
+    id: a.id,
+    score: a.score ?? 0,
+    total_marks: a.total_marks,
+    percentage: parseDecimal(a.percentage) ?? 0,
+    submitted_at: a.submitted_at,
+  }));
+  const countedBefore = countedResult(evaluatedAttempts.filter((a) => a.id !== attempt.id), policy);
+  const countedAfter = countedResult(evaluatedAttempts, policy)!;
+  const isFirstAttempt = countedBefore === null;
+  const newPerfect = countedAfter.percentage === 100 && (countedBefore?.percentage ?? 0) < 100;
+
+  if (isFirstAttempt) {
+    xpEarned += 50; // Quiz completion
+    xpEarned += attempt.correct_count * 10; // Per correct answer
+    xpEarned += 20; // First attempt bonus
+  } else {
+    xpEarned += 10; // Retake completion
+    xpEarned += Math.round(Math.max(0, countedAfter.score - countedBefore.score)) * 10; // Per mark gained
+  }
 
-// ── Health Check ──
+  // Perfect score bonus
+  if (newPerfect) {
+    xpEarned += 100;
+  }
 
-app.get("/health", async (_req, res) => {
-  const dbOk = await checkDatabaseConnection();
-  res.status(dbOk ? 200 : 503).json({
-    status: dbOk ? "healthy" : "unhealthy",
-    database: dbOk ? "connected" : "disconnected",
-  });
-});
+  // Speed bonus
+  if (isFirstAttempt && quiz?.time_limit_minutes) {
+    const timeTaken = (attempt.submitted_at.getTime() - attempt.started_at.getTime()) / 60000;
+    if (timeTaken < quiz.time_limit_minutes * 0.5) {
+      xpEarned += 30;
+    }
+  }
 
-// ── UI ──
+  // Streak logic
+  const today = attempt.submitted_at.toISOString().slice(0, 10);
+  let newStreak = profile.current_streak;
+  if (profile.last_quiz_date) {
+    const lastDate = typeof profile.last_quiz_date === "string"
+      ? profile.last_quiz_date
+      : profile.last_quiz_date;
+    const lastMs = new Date(lastDate).getTime();
+    const todayMs = new Date(today).getTime();
+    const diffDays = Math.floor((todayMs - lastMs) / 86400000);
+    if (diffDays === 1) {
+      newStreak += 1;
+    } else if (diffDays > 1) {
+      newStreak = 1;
+    }
+    // Same day: no streak change
+  } else {
+    newStreak = 1;
+  }
 
-app.get("/", (_req, res) => {
-  if (!existsSync(HTML_PATH)) {
-    res.status(404).send("ui.html not found");
-    return;
+  // Streak bonus
+  if (newStreak >= 3) {
+    xpEarned += 25;
   }
-  res.setHeader("Content-Type", "text/html");
-  res.send(readFileSync(HTML_PATH, "utf-8"));
-});
 
-// ========================================================================
-// AUTH ROUTES
-// ========================================================================
+  const longestStreak = Math.max(profile.longest_streak, newStreak);
+  const newXpTotal = profile.xp_total + xpEarned;
+  const newLevel = calculateLevel(newXpTotal);
+  const newQuizzesCompleted = profile.quizzes_completed + (isFirstAttempt ? 1 : 0);
+  const newPerfectScores = newPerfect ? profile.perfect_scores + 1 : profile.perfect_scores;
 
-app.post("/api/auth/register", async (req, res) => {
+  // Badge checks
+  const currentBadges = new Set(profile.badges || []);
+  if (!currentBadges.has("first_steps")) {
+    newBadges.push("first_steps");
+    currentBadges.add("first_steps");
+  }
+  if (newStreak >= 3 && !currentBadges.has("on_fire")) {
+    newBadges.push("on_fire");
+    currentBadges.add("on_fire");
+  }
+  if (newStreak >= 7 && !currentBadges.has("week_warrior")) {
+    newBadges.push("week_warrior");
+    currentBadges.add("week_warrior");
+  }
+  if (attempt.percentage === 100 && !currentBadges.has("perfect_score")) {
+    newBadges.push("perfect_score");
+    currentBadges.add("perfect_score");
+  }
+  if (newQuizzesCompleted >= 10 && !currentBadges.has("quiz_master")) {
+    newBadges.push("quiz_master");
+    currentBadges.add("quiz_master");
+  }
+  if (quiz?.time_limit_minutes && !currentBadges.has("speed_demon")) {
+    const timeTaken = (attempt.submitted_at.getTime() - attempt.started_at.getTime()) / 60000;
+    if (timeTaken < quiz.time_limit_minutes * 0.5) {
+      newBadges.push("speed_demon");
+      currentBadges.add("speed_demon");
+    }
+  }
+  // Comeback kid check
+  if (attempt.percentage >= 80 && !currentBadges.has("comeback_kid")) {
+    const prevAttempts = await executor
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.student_id, userId),
+          eq(quizAttempts.status, "evaluated")
+        )
+      );
+    const hadLowScore = prevAttempts.some(
+      (a) => a.id !== attempt.id && (parseDecimal(a.percentage) ?? 0) < 40
+    );
+    if (hadLowScore) {
+      newBadges.push("comeback_kid");
+      currentBadges.add("comeback_kid");
+    }
+  }
+
+  const leveledUp = newLevel > profile.level;
+
+  // Update profile
+  await executor
+    .update(studentProfiles)
+    .set({
+      xp_total: newXpTotal,
+      level: newLevel,
+      current_streak: newStreak,
+      longest_streak: longestStreak,
+      last_quiz_date: today,
+      badges: Array.from(currentBadges),
+      quizzes_completed: newQuizzesCompleted,
+      perfect_scores: newPerfectScores,
+    })
+    .where(eq(studentProfiles.user_id, userId));
+
+  // Update leaderboard
+  await updateLeaderboard(userId, xpEarned, executor);
+
+  return {
+    policy,
+    counted: countedAfter,
+    attempts: evaluatedAttempts.length,
+    gamification: {
+      xp_earned: xpEarned,
+      xp_total: newXpTotal,
+      level: newLevel,
+      leveled_up: leveledUp,
+      streak: newStreak,
+      new_badges: newBadges,
+      badges_total: currentBadges.size,
+    },
+  };
+}
+
+// ── Grading Helpers ──
+
+type QuestionRow = typeof questions.$inferSelect;
+
+interface AttemptScore {
+  score: number;
+  totalMarks: number;
+  percentage: number;
+}
+
+/** The database, or a transaction open on it. */
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Recompute an attempt's score and percentage from its stored answers. Questions
+ * the student never answered count towards the total with zero marks.
+ */
+async function recomputeAttemptScore(attemptId: string, executor: DbExecutor = db): Promise<AttemptScore> {
+  const [attempt] = await executor.select().from(quizAttempts).where(eq(quizAttempts.id, attemptId)).limit(1);
+  const answers = await executor
+    .select({ marks_awarded: studentAnswers.marks_awarded })
+    .from(studentAnswers)
+    .where(eq(studentAnswers.attempt_id, attemptId));
+  const [totalRow] = await executor
+    .select({ value: sql<number>`coalesce(sum(${questions.marks}), 0)::int` })
+    .from(questions)
+    .where(eq(questions.quiz_id, attempt.quiz_id));
+
+  const score = answers.reduce((s, r) => s + r.marks_awarded, 0);
+  const totalMarks = Number(totalRow?.value ?? 0);
+  const percentage = totalMarks > 0 ? Math.round((score / totalMarks) * 100 * 100) / 100 : 0;
+
+  await executor
+    .update(quizAttempts)
+    .set({ score, total_marks: totalMarks, percentage: String(percentage) })
+    .where(eq(quizAttempts.id, attemptId));
+
+  return { score, totalMarks, percentage };
+}
+
+// ── Attempt Timing Helpers ──
+
+/** Late submissions within this window still count, to absorb network latency. */
+const ATTEMPT_GRACE_MS = 30_000;
+
+/** The moment an attempt must be handed in: the time limit or the quiz closing, whichever is first. */
+function attemptDeadline(
+  attempt: { started_at: Date },
+  quiz: { time_limit_minutes: number | null; expires_at: Date | null }
+): Date | null {
+  const candidates: number[] = [];
+  if (quiz.time_limit_minutes) {
+    candidates.push(attempt.started_at.getTime() + quiz.time_limit_minutes * 60_000);
+  }
+  if (quiz.expires_at) candidates.push(quiz.expires_at.getTime());
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : null;
+}
+
+function isPastDeadline(deadline: Date | null, now = new Date()): boolean {
+  return deadline !== null && now.getTime() > deadline.getTime() + ATTEMPT_GRACE_MS;
+}
+
+function remainingSeconds(deadline: Date | null, now = new Date()): number | null {
+  return deadline ? Math.max(0, Math.floor((deadline.getTime() - now.getTime()) / 1000)) : null;
+}
+
+/**
+ * Grade the answers saved so far on an in-progress attempt and close it as auto-submitted.
+ * Returns null when the attempt was no longer in progress (the sweep and a submission raced).
+ */
+async function expireAttempt(attemptId: string, deadline: Date): Promise<AttemptScore | null> {
+  return db.transaction(async (tx) => {
+    // Closing the attempt first locks it, so a racing submit or sweep waits and then finds it closed
+    const [closed] = await tx
+      .update(quizAttempts)
+      .set({ status: "evaluated", submitted_at: deadline, auto_submitted: true })
+      .where(and(eq(quizAttempts.id, attemptId), eq(quizAttempts.status, "in_progress")))
+      .returning({ id: quizAttempts.id });
+    if (!closed) return null;
+
+    const saved = await tx
+      .select({ answer: studentAnswers, question: questions })
+      .from(studentAnswers)
+      .innerJoin(questions, eq(studentAnswers.question_id, questions.id))
+      .where(eq(studentAnswers.attempt_id, attemptId));
+
+    for (const { answer, question } of saved) {
+      const grade = gradeAnswer(question, answer.answer_text ?? "");
+      await tx
+        .update(studentAnswers)
+        .set({
+          is_correct: grade.isCorrect,
+          marks_awarded: grade.marksAwarded,
+          ai_feedback: grade.feedback,
+          rubric_scores: grade.criteria ?? null,
+          graded_by: "auto",
+        })
+        .where(eq(studentAnswers.id, answer.id));
+    }
+
+    return recomputeAttemptScore(attemptId, tx);
+  });
+}
+
+/** Auto-submit every in-progress attempt whose time limit or quiz window has run out. */
+async function expireOverdueAttempts(): Promise<void> {
+  const rows = await db
+    .select({ attempt: quizAttempts, quiz: quizzes })
+    .from(quizAttempts)
+    .innerJoin(quizzes, eq(quizAttempts.quiz_id, quizzes.id))
+    .where(
+      and(
+        eq(quizAttempts.status, "in_progress"),
+        sql`(${quizzes.time_limit_minutes} is not null or ${quizzes.expires_at} is not null)`
+      )
+    );
+
+  for (const { attempt, quiz } of rows) {
+    const deadline = attemptDeadline(attempt, quiz);
+    if (isPastDeadline(deadline)) await expireAttempt(attempt.id, deadline!);
+  }
+}
+
+// ── Answer Autosave Helpers ──
+
+interface SubmittedAnswer {
+  question_id: string;
+  answer: string;
+}
+
+function isAnswerList(value: unknown): value is SubmittedAnswer[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (a) => a && typeof a.question_id === "string" && (typeof a.answer === "string" || a.answer == null)
+    )
+  );
+}
+
+/**
+ * Upsert answers into `student_answers` for an in-progress attempt. Saved answers stay
+ * ungraded until the attempt is submitted or expires. Unknown question ids are skipped.
+ */
+async function saveAttemptAnswers(
+  attemptId: string,
+  questionMap: Map<string, QuestionRow>,
+  answers: SubmittedAnswer[]
+): Promise<number> {
+  const rows = answers
+    .filter((a) => questionMap.has(a.question_id))
+    .map((a) => ({
+      attempt_id: attemptId,
+      question_id: a.question_id,
+      answer_text: a.answer ?? "",
+      is_correct: null,
+      marks_awarded: 0,
+      ai_feedback: null,
+    }));
+  if (rows.length === 0) return 0;
+
+  await db
+    .insert(studentAnswers)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [studentAnswers.attempt_id, studentAnswers.question_id],
+      set: {
+        answer_text: sql`excluded.answer_text`,
+        is_correct: null,
+        marks_awarded: 0,
+        ai_feedback: null,
+        rubric_scores: null,
+        graded_by: "auto",
+      },
+    });
+  return rows.length;
+}
+
+async function loadSavedAnswers(attemptId: string): Promise<SubmittedAnswer[]> {
+  const rows = await db.select().from(studentAnswers).where(eq(studentAnswers.attempt_id, attemptId));
+  return rows.map((r) => ({ question_id: r.question_id, answer: r.answer_text ?? "" }));
+}
+
+// ── Topic Hierarchy Helpers ──
+
+/** Deepest allowed nesting, counting the top-level topic (e.g. unit → chapter → lesson → ...). */
+const MAX_TOPIC_DEPTH = 5;
+
+/** A topic's descendants level by level, starting with the topic itself. */
+async function topicLevels(topicId: string): Promise<string[][]> {
+  const levels = [[topicId]];
+  const seen = new Set([topicId]);
+  for (;;) {
+    const children = await db
+      .select({ id: topics.id })
+      .from(topics)
+      .where(inArray(topics.parent_id, levels[levels.length - 1]));
+    const next = children.map((c) => c.id).filter((id) => !seen.has(id));
+    if (next.length === 0) return levels;
+    next.forEach((id) => seen.add(id));
+    levels.push(next);
+  }
+}
+
+/** The topic and every topic beneath it. */
+async function topicSubtreeIds(topicId: string): Promise<string[]> {
+  return (await topicLevels(topicId)).flat();
+}
+
+/** A topic's ancestors, top-level first. */
+async function topicAncestors(topic: { parent_id: string | null }): Promise<Array<{ id: string; title: string }>> {
+  const path: Array<{ id: string; title: string }> = [];
+  let parentId = topic.parent_id;
+  while (parentId && path.length < MAX_TOPIC_DEPTH) {
+    const [parent] = await db
+      .select({ id: topics.id, title: topics.title, parent_id: topics.parent_id })
+      .from(topics)
+      .where(eq(topics.id, parentId))
+      .limit(1);
+    if (!parent) break;
+    path.unshift({ id: parent.id, title: parent.title });
+    parentId = parent.parent_id;
+  }
+  return path;
+}
+
+function canManageTopic(user: JwtPayload, topic: { teacher_id: string }): boolean {
+  return user.role === "admin" || topic.teacher_id === user.userId;
+}
+
+/** Load a topic the caller may manage, or send the 404/403 and return null. */
+async function loadManagedTopic(req: AuthRequest, res: express.Response) {
+  const [topic] = await db.select().from(topics).where(eq(topics.id, param(req, "id"))).limit(1);
+  if (!topic) {
+    res.status(404).json({ error: "Topic not found" });
+    return null;
+  }
+  if (!canManageTopic(req.user!, topic)) {
+    res.status(403).json({ error: "You can only manage your own topics" });
+    return null;
+  }
+  return topic;
+}
+
+/**
+ * Check a requested parent for `topicId` (null when creating): it must exist, be the
+ * caller's, not sit inside the topic's own subtree, and keep the tree within
+ * MAX_TOPIC_DEPTH. Sends the 400/403 and returns false otherwise.
+ */
+async function checkTopicParent(
+  req: AuthRequest,
+  parentId: string,
+  topicId: string | null,
+  res: express.Response
+): Promise<boolean> {
+  const [parent] = await db.select().from(topics).where(eq(topics.id, parentId)).limit(1);
+  if (!parent) {
+    res.status(400).json({ error: "parent_id must be an existing topic" });
+    return false;
+  }
+  if (!canManageTopic(req.user!, parent)) {
+    res.status(403).json({ error: "Subtopics can only be added under your own topics" });
+    return false;
+  }
+
+  const levels = topicId ? await topicLevels(topicId) : [[]];
+  if (topicId && levels.flat().includes(parentId)) {
+    res.status(400).json({ error: "A topic cannot be moved under itself or one of its subtopics" });
+    return false;
+  }
+  const depth = (await topicAncestors(parent)).length + 1 + levels.length;
+  if (depth > MAX_TOPIC_DEPTH) {
+    res.status(400).json({ error: `Topics can be nested at most ${MAX_TOPIC_DEPTH} levels deep` });
+    return false;
+  }
+  return true;
+}
+
+// ── Quiz Ownership Helpers ──
+
+function canManageQuiz(user: JwtPayload, quiz: { teacher_id: string }): boolean {
+  return user.role === "admin" || quiz.teacher_id === user.userId;
+}
+
+/**
+ * Load a quiz the caller may manage, or send the 404/403 and return null.
+ * With `editable`, archived quizzes are refused as well.
+ */
+async function loadManagedQuiz(req: AuthRequest, res: express.Response, opts: { editable?: boolean } = {}) {
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, param(req, "id"))).limit(1);
+  if (!quiz) {
+    res.status(404).json({ error: "Quiz not found" });
+    return null;
+  }
+  if (!canManageQuiz(req.user!, quiz)) {
+    res.status(403).json({ error: "You can only manage your own quizzes" });
+    return null;
+  }
+  if (opts.editable && isLocked(quiz.status)) {
+    res.status(400).json({ error: "Archived quizzes cannot be edited" });
+    return null;
+  }
+  return quiz;
+}
+
+type AttemptPolicyFields = Pick<
+  typeof quizzes.$inferInsert,
+  "max_attempts" | "attempt_cooldown_minutes" | "scoring_policy"
+>;
+
+/** Validate the attempt policy fields present in a request body. Absent fields are left out. */
+function parseAttemptPolicy(
+  body: Record<string, unknown>
+): { ok: true; fields: AttemptPolicyFields } | { ok: false; error: string } {
+  const fields: AttemptPolicyFields = {};
+  for (const key of ["max_attempts", "attempt_cooldown_minutes"] as const) {
+    const v = body[key];
+    if (v === undefined) continue;
+    if (v !== null && !(Number.isInteger(v) && (v as number) > 0)) {
+      return { ok: false, error: `${key} must be a positive integer or null` };
+    }
+    fields[key] = v as number | null;
+  }
+  if (body.scoring_policy !== undefined) {
+    if (!isScoringPolicy(body.scoring_policy)) {
+      return { ok: false, error: `scoring_policy must be one of: ${SCORING_POLICIES.join(", ")}` };
+    }
+    fields.scoring_policy = body.scoring_policy;
+  }
+  return { ok: true, fields };
+}
+
+async function syncQuizTotalMarks(quizId: string): Promise<number> {
+  const [row] = await db
+    .select({ value: sql<number>`coalesce(sum(${questions.marks}), 0)::int` })
+    .from(questions)
+    .where(eq(questions.quiz_id, quizId));
+  const totalMarks = Number(row?.value ?? 0);
+  await db.update(quizzes).set({ total_marks: totalMarks, updated_at: new Date() }).where(eq(quizzes.id, quizId));
+  return totalMarks;
+}
+
+/** Open scheduled quizzes whose start time has arrived and close published ones past expiry. */
+async function advanceQuizSchedules(): Promise<void> {
+  const now = new Date();
+  await db
+    .update(quizzes)
+    .set({ status: "published", updated_at: now })
+    .where(and(eq(quizzes.status, "scheduled"), lte(quizzes.scheduled_at, now)));
+  await db
+    .update(quizzes)
+    .set({ status: "closed", updated_at: now })
+    .where(and(eq(quizzes.status, "published"), isNotNull(quizzes.expires_at), lte(quizzes.expires_at, now)));
+}
+
+async function countEvaluatedAttempts(quizId: string): Promise<number> {
+  const [row] = await db
+    .select({ value: count() })
+    .from(quizAttempts)
+    .where(and(eq(quizAttempts.quiz_id, quizId), eq(quizAttempts.status, "evaluated")));
+  return Number(row?.value ?? 0);
+}
+
+// ── Question Source Helpers ──
+
+/** Where a question was drawn from, for teachers to verify it and students to review it. */
+interface QuestionSource {
+  material_id: string;
+  file_name: string;
+  unit: MaterialExcerpt["unit"];
+  page_start: number | null;
+  page_end: number | null;
+  label: string;
+}
+
+type SourcedQuestion = Pick<QuestionRow, "id" | "source_material_id" | "source_page_start" | "source_page_end">;
+
+/** Resolve the cited material of each question, keyed by question id. */
+async function loadQuestionSources(qs: SourcedQuestion[]): Promise<Map<string, QuestionSource>> {
+  const materialIds = [...new Set(qs.map((q) => q.source_material_id).filter((id): id is string => !!id))];
+  if (materialIds.length === 0) return new Map();
+
+  const mats = await db
+    .select({ id: materials.id, file_name: materials.file_name, format: materials.format })
+    .from(materials)
+    .where(inArray(materials.id, materialIds));
+  const byId = new Map(mats.map((m) => [m.id, m]));
+
+  const sources = new Map<string, QuestionSource>();
+  for (const q of qs) {
+    const mat = q.source_material_id ? byId.get(q.source_material_id) : undefined;
+    if (!mat) continue;
+    const cited = {
+      file_name: mat.file_name,
+      unit: sectionUnit(mat.format),
+      page_start: q.source_page_start,
+      page_end: q.source_page_end,
+    };
+    sources.set(q.id, { material_id: q.source_material_id!, ...cited, label: excerptLabel(cited) });
+  }
+  return sources;
+}
+
+/** A cited material must belong to the quiz's topic or one of its subtopics. */
+async function checkSourceMaterial(topicId: string, materialId: string | null, res: express.Response): Promise<boolean> {
+  if (!materialId) return true;
+  const [mat] = await db
+    .select({ id: materials.id })
+    .from(materials)
+    .where(and(eq(materials.id, materialId), inArray(materials.topic_id, await topicSubtreeIds(topicId))))
+    .limit(1);
+  if (!mat) {
+    res.status(400).json({ error: "source_material_id must be a material of this quiz's topic or its subtopics" });
+    return false;
+  }
+  return true;
+}
+
+// ── File Upload Setup ──
+
+// Requests land in a scratch directory; accepted files then move into the storage driver
+const UPLOAD_TMP_DIR = join(tmpdir(), "smart-quiz-uploads");
+if (!existsSync(UPLOAD_TMP_DIR)) mkdirSync(UPLOAD_TMP_DIR, { recursive: true });
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, UPLOAD_TMP_DIR),
+    filename: (_req, _file, cb) => cb(null, `${Date.now()}-${genId()}`),
+  }),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50 MB
+  fileFilter: (req: express.Request & { rejectedFiles?: string[] }, file, cb) => {
+    if (findExtractor(file.originalname, file.mimetype)) {
+      cb(null, true);
+      return;
+    }
+    // Skip rather than fail, so the other files in a multi-file upload still go through
+    (req.rejectedFiles ??= []).push(file.originalname);
+    cb(null, false);
+  },
+});
+
+// ── Material Storage Helpers ──
+
+const DEFAULT_STORAGE_QUOTA_BYTES = Number(process.env.ORG_STORAGE_QUOTA_MB ?? 1024) * 1024 * 1024;
+
+/** Uploads younger than this are never garbage-collected, so in-flight requests keep their files. */
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+/** SHA-256 of a file on disk, streamed so large uploads are not held in memory. */
+async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+/** Move an accepted upload into storage under a content-addressed key, and return the key. */
+async function moveUploadToStorage(file: Express.Multer.File, hash: string): Promise<string> {
+  const key = `${hash}${extname(file.originalname).toLowerCase()}`;
+  try {
+    await getStorage().put(key, await readFile(file.path), file.mimetype);
+  } finally {
+    await rm(file.path, { force: true });
+  }
+  return key;
+}
+
+/** Delete a stored file unless another material still points at it (deduplicated uploads share files). */
+async function releaseStoredFile(key: string): Promise<void> {
+  const [ref] = await db
+    .select({ id: materials.id })
+    .from(materials)
+    .where(eq(materials.file_path, key))
+    .limit(1);
+  if (!ref) await getStorage().delete(key);
+}
+
+/** Bytes of material stored for an organization; a file shared by several materials counts once. */
+async function organizationStorageUsage(orgId: string): Promise<number> {
+  const files = await db
+    .selectDistinct({ file_path: materials.file_path, size: materials.file_size_bytes })
+    .from(materials)
+    .innerJoin(topics, eq(materials.topic_id, topics.id))
+    .where(eq(topics.organization_id, orgId));
+  return files.reduce((sum, f) => sum + (f.size ?? 0), 0);
+}
+
+async function organizationStorageQuota(orgId: string): Promise<number> {
+  const [org] = await db
+    .select({ quota: organizations.storage_quota_bytes })
+    .from(organizations)
+    .where(eq(organizations.id, orgId))
+    .limit(1);
+  return org?.quota ?? DEFAULT_STORAGE_QUOTA_BYTES;
+}
+
+/**
+ * Check that storing `addedBytes` more (less `freedBytes` released by a replacement) fits
+ * the organization's quota, or send the 413. Topics outside an organization are unlimited.
+ */
+async function checkStorageQuota(
+  orgId: string | null,
+  addedBytes: number,
+  res: express.Response,
+  freedBytes = 0
+): Promise<boolean> {
+  if (!orgId || addedBytes === 0) return true;
+  const [used, quota] = await Promise.all([organizationStorageUsage(orgId), organizationStorageQuota(orgId)]);
+  if (used - freedBytes + addedBytes > quota) {
+    res.status(413).json({
+      error: "Organization storage quota exceeded",
+      used_bytes: used,
+      quota_bytes: quota,
+      requested_bytes: addedBytes,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Remove stored files that no material references (e.g. after a topic cascade-delete),
+ * and scratch uploads abandoned by failed requests.
+ */
+async function collectOrphanFiles(): Promise<number> {
+  const referenced = new Set(
+    (await db.selectDistinct({ file_path: materials.file_path }).from(materials)).map((m) => m.file_path)
+  );
+  const storage = getStorage();
+  let removed = 0;
+  for await (const object of storage.list()) {
+    if (referenced.has(object.key) || Date.now() - object.last_modified.getTime() < ORPHAN_GRACE_MS) continue;
+    await storage.delete(object.key);
+    removed++;
+  }
+  for (const name of await readdir(UPLOAD_TMP_DIR)) {
+    const path = join(UPLOAD_TMP_DIR, name);
+    // A request that finished in the meantime may already have moved or removed the file
+    const info = await stat(path).catch((err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    });
+    if (!info || Date.now() - info.mtimeMs < ORPHAN_GRACE_MS) continue;
+    await rm(path, { force: true });
+    removed++;
+  }
+  if (removed > 0) console.log(`Removed ${removed} orphaned upload(s)`);
+  return removed;
+}
+
+// ── Material Access Helpers ──
+
+const DOWNLOAD_URL_SECRET = process.env.DOWNLOAD_URL_SECRET ?? JWT_SECRET;
+const DOWNLOAD_URL_TTL_SECONDS = Number(process.env.DOWNLOAD_URL_TTL_SECONDS ?? 300);
+
+/**
+ * Whether a user may read a topic's materials: admins, the topic's teacher, teachers of
+ * its organization, and students enrolled in that organization.
+ */
+async function canAccessTopicMaterials(
+  user: JwtPayload,
+  topic: { teacher_id: string; organization_id: string | null }
+): Promise<boolean> {
+  if (user.role === "admin" || topic.teacher_id === user.userId) return true;
+  if (!topic.organization_id) return false;
+
+  if (user.role === "teacher") {
+    // Read membership from the database; the token's orgId may predate a removal
+    const [member] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, user.userId), eq(users.organization_id, topic.organization_id)))
+      .limit(1);
+    return !!member;
+  }
+  const [enrollment] = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(and(eq(enrollments.student_id, user.userId), eq(enrollments.organization_id, topic.organization_id)))
+    .limit(1);
+  return !!enrollment;
+}
+
+/** Load a material the caller may read, or send the 404/403. */
+async function loadReadableMaterial(req: AuthRequest, res: express.Response) {
+  const [row] = await db
+    .select({ material: materials, topic: topics })
+    .from(materials)
+    .innerJoin(topics, eq(materials.topic_id, topics.id))
+    .where(eq(materials.id, param(req, "id")))
+    .limit(1);
+  if (!row) {
+    res.status(404).json({ error: "Material not found" });
+    return null;
+  }
+  if (!(await canAccessTopicMaterials(req.user!, row.topic))) {
+    res.status(403).json({ error: "You do not have access to this material" });
+    return null;
+  }
+  return row.material;
+}
+
+function downloadSignature(materialId: string, expires: number): string {
+  return createHmac("sha256", DOWNLOAD_URL_SECRET).update(`${materialId}:${expires}`).digest("hex");
+}
+
+/** A short-lived link that downloads the material without an Authorization header. */
+function signedDownloadUrl(materialId: string): { url: string; expires_at: string } {
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS;
+  return {
+    url: `/api/materials/${materialId}/download?expires=${expires}&signature=${downloadSignature(materialId, expires)}`,
+    expires_at: new Date(expires * 1000).toISOString(),
+  };
+}
+
+function verifyDownloadSignature(materialId: string, expires: unknown, signature: unknown): boolean {
+  const exp = Number(expires);
+  if (!Number.isInteger(exp) || exp < Date.now() / 1000 || typeof signature !== "string") return false;
+  const expected = Buffer.from(downloadSignature(materialId, exp));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Load a material whose topic the caller teaches (admins manage all), or send the 404/403. */
+async function loadManagedMaterial(req: AuthRequest, res: express.Response) {
+  const [row] = await db
+    .select({ material: materials, topic: topics })
+    .from(materials)
+    .innerJoin(topics, eq(materials.topic_id, topics.id))
+    .where(eq(materials.id, param(req, "id")))
+    .limit(1);
+  if (!row) {
+    res.status(404).json({ error: "Material not found" });
+    return null;
+  }
+  if (req.user!.role !== "admin" && row.topic.teacher_id !== req.user!.userId) {
+    res.status(403).json({ error: "You can only manage materials of your own topics" });
+    return null;
+  }
+  return row;
+}
+
+// ── Material Retrieval Helpers ──
+
+/** Replace a material's retrieval chunks with a fresh index of its pages. */
+async function indexMaterialChunks(
+  material: { id: string; topic_id: string },
+  pages: string[],
+  pagesKnown = true
+): Promise<number> {
+  const chunks = chunkPages(pages, {}, pagesKnown);
+  await db.transaction(async (tx) => {
+    await tx.delete(materialChunks).where(eq(materialChunks.material_id, material.id));
+    if (chunks.length > 0) {
+      await tx
+        .insert(materialChunks)
+        .values(chunks.map((c) => ({ ...c, material_id: material.id, topic_id: material.topic_id })));
+    }
+  });
+  return chunks.length;
+}
+
+/** Chunk materials uploaded before the retrieval index existed (page boundaries unknown). */
+async function indexUnchunkedMaterials(): Promise<void> {
+  const pending = await db
+    .select({ id: materials.id, topic_id: materials.topic_id, extracted_text: materials.extracted_text })
+    .from(materials)
+    .where(
+      and(
+        isNotNull(materials.extracted_text),
+        sql`not exists (select 1 from ${materialChunks} where ${materialChunks.material_id} = ${materials.id})`
+      )
+    );
+  for (const m of pending) {
+    await indexMaterialChunks(m, [m.extracted_text!], false);
+  }
+}
+
+/**
+ * The material passages of a topic and its subtopics most relevant to `queryText`, best
+ * first, within a character budget. Falls back to the opening passages when nothing matches.
+ */
+async function retrieveExcerpts(
+  topicId: string,
+  queryText: string,
+  { limit = 8, maxChars = 6000 } = {}
+): Promise<MaterialExcerpt[]> {
+  const chunks = await db
+    .select({
+      material_id: materialChunks.material_id,
+      file_name: materials.file_name,
+      format: materials.format,
+      chunk_index: materialChunks.chunk_index,
+      page_start: materialChunks.page_start,
+      page_end: materialChunks.page_end,
+      text: materialChunks.text,
+      token_count: materialChunks.token_count,
+      terms: materialChunks.terms,
+    })
+    .from(materialChunks)
+    .innerJoin(materials, eq(materialChunks.material_id, materials.id))
+    .where(inArray(materialChunks.topic_id, await topicSubtreeIds(topicId)))
+    .orderBy(materialChunks.material_id, materialChunks.chunk_index);
+
+  const ranked = bm25Rank(queryText, chunks, { limit }).map((r) => r.chunk);
+  const picked = ranked.length > 0 ? ranked : chunks.slice(0, limit);
+
+  const excerpts: MaterialExcerpt[] = [];
+  let used = 0;
+  for (const c of picked) {
+    if (used + c.text.length > maxChars && excerpts.length > 0) break;
+    used += c.text.length;
+    excerpts.push({
+      material_id: c.material_id,
+      file_name: c.file_name,
+      unit: sectionUnit(c.format),
+      page_start: c.page_start,
+      page_end: c.page_end,
+      text: c.text,
+    });
+  }
+  return excerpts;
+}
+
+// ── Express App ──
+
+const app = express();
+app.use(express.json({ limit: "10mb" }));
+
+const HTML_PATH = resolve(__dirname, "..", "ui.html");
+
+// ── Health Check ──
+
+app.get("/health", async (_req, res) => {
+  const dbOk = await checkDatabaseConnection();
+  res.status(dbOk ? 200 : 503).json({
+    status: dbOk ? "healthy" : "unhealthy",
+    database: dbOk ? "connected" : "disconnected",
+  });
+});
+
+// ── UI ──
+
+app.get("/", (_req, res) => {
+  if (!existsSync(HTML_PATH)) {
+    res.status(404).send("ui.html not found");
+    return;
+  }
+  res.setHeader("Content-Type", "text/html");
+  res.send(readFileSync(HTML_PATH, "utf-8"));
+});
+
+// ========================================================================
+// AUTH ROUTES
+// ========================================================================
+
+app.post("/api/auth/register", async (req, res) => {
   const { email, password, name, role, organization_id } = req.body;
   if (!email || !password || !name || !role) {
     res.status(400).json({ error: "email, password, name, and role are required" });
@@ -510,6 +2146,39 @@ app.get(
   }
 );
 
+app.get("/api/organizations/:id/storage", authMiddleware, roleMiddleware("admin"), async (req, res) => {
+  const orgId = param(req, "id");
+  const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+  if (!org) { res.status(404).json({ error: "Organization not found" }); return; }
+
+  const used = await organizationStorageUsage(orgId);
+  const quota = org.storage_quota_bytes ?? DEFAULT_STORAGE_QUOTA_BYTES;
+  res.json({
+    organization_id: orgId,
+    used_bytes: used,
+    quota_bytes: quota,
+    is_default_quota: org.storage_quota_bytes === null,
+    remaining_bytes: Math.max(0, quota - used),
+  });
+});
+
+app.put("/api/organizations/:id/storage", authMiddleware, roleMiddleware("admin"), async (req, res) => {
+  const orgId = param(req, "id");
+  const { quota_bytes } = req.body;
+  if (quota_bytes !== null && !(Number.isSafeInteger(quota_bytes) && quota_bytes >= 0)) {
+    res.status(400).json({ error: "quota_bytes must be a non-negative integer, or null for the default" });
+    return;
+  }
+
+  const [org] = await db
+    .update(organizations)
+    .set({ storage_quota_bytes: quota_bytes, updated_at: new Date() })
+    .where(eq(organizations.id, orgId))
+    .returning();
+  if (!org) { res.status(404).json({ error: "Organization not found" }); return; }
+  res.json({ organization_id: orgId, quota_bytes: org.storage_quota_bytes ?? DEFAULT_STORAGE_QUOTA_BYTES });
+});
+
 // Get all unassigned teachers (for admin to assign)
 app.get(
   "/api/teachers/unassigned",
@@ -601,16 +2270,354 @@ app.post("/api/organizations/:id/enroll", authMiddleware, async (req: AuthReques
   res.status(201).json({ enrolled: true, student_id: studentId, organization_id: orgId });
 });
 
+// ========================================================================
+// CLASS ROUTES
+// ========================================================================
+
+// ── Class Helpers ──
+
+/** Load a class the caller teaches (admins manage all), or send the 404/403 and return null. */
+async function loadManagedClass(req: AuthRequest, res: express.Response, classId = param(req, "id")) {
+  const [cls] = await db.select().from(classes).where(eq(classes.id, classId)).limit(1);
+  if (!cls) {
+    res.status(404).json({ error: "Class not found" });
+    return null;
+  }
+  if (req.user!.role !== "admin" && cls.teacher_id !== req.user!.userId) {
+    res.status(403).json({ error: "You can only manage your own classes" });
+    return null;
+  }
+  return cls;
+}
+
+/** Assignments of quizzes to the classes a student belongs to, whatever the quiz's status. */
+async function studentAssignments(studentId: string, quizId?: string) {
+  return db
+    .select({
+      quiz_id: quizAssignments.quiz_id,
+      class_id: classes.id,
+      class_name: classes.name,
+      due_at: quizAssignments.due_at,
+    })
+    .from(quizAssignments)
+    .innerJoin(classStudents, eq(classStudents.class_id, quizAssignments.class_id))
+    .innerJoin(classes, eq(classes.id, quizAssignments.class_id))
+    .where(
+      and(
+        eq(classStudents.student_id, studentId),
+        quizId ? eq(quizAssignments.quiz_id, quizId) : undefined
+      )
+    );
+}
+
+/** Published quizzes assigned to any of a student's classes, newest first. */
+async function assignedPublishedQuizzes(studentId: string) {
+  const quizIds = [...new Set((await studentAssignments(studentId)).map((a) => a.quiz_id))];
+  if (quizIds.length === 0) return [];
+  return db
+    .select()
+    .from(quizzes)
+    .where(and(eq(quizzes.status, "published"), inArray(quizzes.id, quizIds)))
+    .orderBy(desc(quizzes.created_at));
+}
+
+/**
+ * When a student's assignments of one quiz fall due. A quiz assigned through several
+ * classes is due at the latest of their dates; any assignment without one means never.
+ */
+function effectiveDueAt(assignments: Array<{ due_at: Date | null }>): Date | null {
+  if (assignments.some((a) => !a.due_at)) return null;
+  return new Date(Math.max(...assignments.map((a) => a.due_at!.getTime())));
+}
+
+/** Ids of the students in a class. */
+async function classStudentIds(classId: string): Promise<string[]> {
+  const rows = await db
+    .select({ student_id: classStudents.student_id })
+    .from(classStudents)
+    .where(eq(classStudents.class_id, classId));
+  return rows.map((r) => r.student_id);
+}
+
+function serializeClass(c: typeof classes.$inferSelect) {
+  return {
+    id: c.id,
+    name: c.name,
+    subject: c.subject,
+    term: c.term,
+    teacher_id: c.teacher_id,
+    organization_id: c.organization_id,
+    created_at: c.created_at?.toISOString(),
+  };
+}
+
+app.post("/api/classes", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const { name, subject, term } = req.body;
+  if (typeof name !== "string" || !name.trim()) {
+    res.status(400).json({ error: "name is required" });
+    return;
+  }
+  const [cls] = await db
+    .insert(classes)
+    .values({
+      id: genId(),
+      name: name.trim(),
+      subject: subject || null,
+      term: term || null,
+      teacher_id: req.user!.userId,
+      organization_id: req.user!.orgId,
+    })
+    .returning();
+  res.status(201).json(serializeClass(cls));
+});
+
+app.get("/api/classes", authMiddleware, async (req: AuthRequest, res) => {
+  let rows;
+  if (req.user!.role === "teacher") {
+    rows = await db.select().from(classes).where(eq(classes.teacher_id, req.user!.userId)).orderBy(classes.name);
+  } else if (req.user!.role === "student") {
+    rows = (
+      await db
+        .select({ cls: classes })
+        .from(classes)
+        .innerJoin(classStudents, eq(classStudents.class_id, classes.id))
+        .where(eq(classStudents.student_id, req.user!.userId))
+        .orderBy(classes.name)
+    ).map((r) => r.cls);
+  } else {
+    rows = await db.select().from(classes).orderBy(classes.name);
+  }
+
+  const enriched = await Promise.all(
+    rows.map(async (c) => {
+      const [{ value: studentCount }] = await db
+        .select({ value: count() })
+        .from(classStudents)
+        .where(eq(classStudents.class_id, c.id));
+      const [{ value: quizCount }] = await db
+        .select({ value: count() })
+        .from(quizAssignments)
+        .where(eq(quizAssignments.class_id, c.id));
+      return { ...serializeClass(c), student_count: Number(studentCount), quiz_count: Number(quizCount) };
+    })
+  );
+  res.json(enriched);
+});
+
+app.get("/api/classes/:id", authMiddleware, async (req: AuthRequest, res) => {
+  const [cls] = await db.select().from(classes).where(eq(classes.id, param(req, "id"))).limit(1);
+  if (!cls) {
+    res.status(404).json({ error: "Class not found" });
+    return;
+  }
+  const user = req.user!;
+  const isMember =
+    user.role === "student" &&
+    (await classStudentIds(cls.id)).includes(user.userId);
+  if (user.role !== "admin" && cls.teacher_id !== user.userId && !isMember) {
+    res.status(403).json({ error: "You are not in this class" });
+    return;
+  }
+
+  const assignments = await db
+    .select({
+      quiz_id: quizzes.id,
+      title: quizzes.title,
+      status: quizzes.status,
+      due_at: quizAssignments.due_at,
+      assigned_at: quizAssignments.assigned_at,
+    })
+    .from(quizAssignments)
+    .innerJoin(quizzes, eq(quizzes.id, quizAssignments.quiz_id))
+    .where(eq(quizAssignments.class_id, cls.id))
+    .orderBy(quizAssignments.due_at);
+
+  // Classmates are not listed to students
+  const students = isMember
+    ? undefined
+    : await db
+        .select({ id: users.id, name: users.name, email: users.email, joined_at: classStudents.joined_at })
+        .from(classStudents)
+        .innerJoin(users, eq(users.id, classStudents.student_id))
+        .where(eq(classStudents.class_id, cls.id))
+        .orderBy(users.name);
+
+  res.json({
+    ...serializeClass(cls),
+    assignments: assignments
+      .filter((a) => !isMember || a.status === "published")
+      .map((a) => ({ ...a, due_at: a.due_at?.toISOString() ?? null, assigned_at: a.assigned_at.toISOString() })),
+    ...(students
+      ? { students: students.map((s) => ({ ...s, joined_at: s.joined_at.toISOString() })) }
+      : {}),
+  });
+});
+
+app.put("/api/classes/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const cls = await loadManagedClass(req, res);
+  if (!cls) return;
+
+  const { name, subject, term } = req.body;
+  const updates: Partial<typeof classes.$inferInsert> = { updated_at: new Date() };
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      res.status(400).json({ error: "name cannot be empty" });
+      return;
+    }
+    updates.name = name.trim();
+  }
+  if (subject !== undefined) updates.subject = subject || null;
+  if (term !== undefined) updates.term = term || null;
+
+  const [updated] = await db.update(classes).set(updates).where(eq(classes.id, cls.id)).returning();
+  res.json(serializeClass(updated));
+});
+
+app.delete("/api/classes/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const cls = await loadManagedClass(req, res);
+  if (!cls) return;
+  // Memberships and assignments cascade; attempts already made are kept
+  await db.delete(classes).where(eq(classes.id, cls.id));
+  res.json({ deleted: true, id: cls.id });
+});
+
+app.post(
+  "/api/classes/:id/students",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const cls = await loadManagedClass(req, res);
+    if (!cls) return;
+
+    const { student_ids } = req.body;
+    if (!Array.isArray(student_ids) || student_ids.length === 0 || !student_ids.every((id) => typeof id === "string")) {
+      res.status(400).json({ error: "student_ids must be a non-empty array of user ids" });
+      return;
+    }
+
+    const found = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.id, student_ids), eq(users.role, "student")));
+    const invalid = student_ids.filter((id: string) => !found.some((u) => u.id === id));
+    if (invalid.length > 0) {
+      res.status(400).json({ error: "Some ids are not students", invalid_ids: invalid });
+      return;
+    }
+    if (cls.organization_id) {
+      const enrolled = await db
+        .select({ student_id: enrollments.student_id })
+        .from(enrollments)
+        .where(and(inArray(enrollments.student_id, student_ids), eq(enrollments.organization_id, cls.organization_id)));
+      const outside = student_ids.filter((id: string) => !enrolled.some((e) => e.student_id === id));
+      if (outside.length > 0) {
+        res.status(400).json({ error: "Students must be enrolled in the class's organization", invalid_ids: outside });
+        return;
+      }
+    }
+
+    const added = await db
+      .insert(classStudents)
+      .values(student_ids.map((id: string) => ({ class_id: cls.id, student_id: id })))
+      .onConflictDoNothing()
+      .returning();
+    res.status(201).json({ class_id: cls.id, added: added.length, already_members: student_ids.length - added.length });
+  }
+);
+
+app.delete(
+  "/api/classes/:id/students/:studentId",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const cls = await loadManagedClass(req, res);
+    if (!cls) return;
+    const removed = await db
+      .delete(classStudents)
+      .where(and(eq(classStudents.class_id, cls.id), eq(classStudents.student_id, param(req, "studentId"))))
+      .returning();
+    if (removed.length === 0) {
+      res.status(404).json({ error: "Student is not in this class" });
+      return;
+    }
+    res.json({ removed: true, student_id: param(req, "studentId") });
+  }
+);
+
+// Assign a quiz to a class, or change the due date of an existing assignment
+app.post(
+  "/api/classes/:id/assignments",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const cls = await loadManagedClass(req, res);
+    if (!cls) return;
+
+    const { quiz_id, due_at } = req.body;
+    const [quiz] = quiz_id ? await db.select().from(quizzes).where(eq(quizzes.id, quiz_id)).limit(1) : [];
+    if (!quiz) {
+      res.status(400).json({ error: "quiz_id must be an existing quiz" });
+      return;
+    }
+    if (!canManageQuiz(req.user!, quiz)) {
+      res.status(403).json({ error: "You can only assign your own quizzes" });
+      return;
+    }
+    const dueAt = due_at ? new Date(due_at) : null;
+    if (dueAt && isNaN(dueAt.getTime())) {
+      res.status(400).json({ error: "due_at must be a valid date" });
+      return;
+    }
+
+    const [assignment] = await db
+      .insert(quizAssignments)
+      .values({ quiz_id: quiz.id, class_id: cls.id, due_at: dueAt, assigned_by: req.user!.userId })
+      .onConflictDoUpdate({
+        target: [quizAssignments.quiz_id, quizAssignments.class_id],
+        set: { due_at: dueAt },
+      })
+      .returning();
+    res.status(201).json({
+      class_id: cls.id,
+      quiz_id: quiz.id,
+      quiz_status: quiz.status,
+      due_at: assignment.due_at?.toISOString() ?? null,
+      assigned_at: assignment.assigned_at.toISOString(),
+    });
+  }
+);
+
+app.delete(
+  "/api/classes/:id/assignments/:quizId",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const cls = await loadManagedClass(req, res);
+    if (!cls) return;
+    const removed = await db
+      .delete(quizAssignments)
+      .where(and(eq(quizAssignments.class_id, cls.id), eq(quizAssignments.quiz_id, param(req, "quizId"))))
+      .returning();
+    if (removed.length === 0) {
+      res.status(404).json({ error: "Quiz is not assigned to this class" });
+      return;
+    }
+    res.json({ removed: true, quiz_id: param(req, "quizId") });
+  }
+);
+
 // ========================================================================
 // TOPIC ROUTES
 // ========================================================================
 
 app.post("/api/topics", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
-  const { title, description, subject, grade_level } = req.body;
+  const { title, description, subject, grade_level, parent_id } = req.body;
   if (!title || !subject) {
     res.status(400).json({ error: "title and subject are required" });
     return;
   }
+  if (parent_id && !(await checkTopicParent(req, parent_id, null, res))) return;
+
   const id = genId();
   await db.insert(topics).values({
     id,
@@ -620,8 +2627,9 @@ app.post("/api/topics", authMiddleware, roleMiddleware("teacher", "admin"), asyn
     grade_level: grade_level || null,
     teacher_id: req.user!.userId,
     organization_id: req.user!.orgId,
+    parent_id: parent_id || null,
   });
-  res.status(201).json({ id, title, description, subject, grade_level });
+  res.status(201).json({ id, title, description, subject, grade_level, parent_id: parent_id || null });
 });
 
 app.get("/api/topics", authMiddleware, async (req: AuthRequest, res) => {
@@ -649,47 +2657,231 @@ app.get("/api/topics", authMiddleware, async (req: AuthRequest, res) => {
       subject: t.subject,
       grade_level: t.grade_level,
       teacher_id: t.teacher_id,
+      parent_id: t.parent_id,
       created_at: t.created_at?.toISOString(),
     }))
   );
 });
 
-app.get("/api/topics/:id", authMiddleware, async (req, res) => {
+app.get("/api/topics/:id", authMiddleware, async (req: AuthRequest, res) => {
   const [topic] = await db.select().from(topics).where(eq(topics.id, param(req, "id"))).limit(1);
   if (!topic) {
     res.status(404).json({ error: "Topic not found" });
     return;
   }
+  const canDownload = await canAccessTopicMaterials(req.user!, topic);
   const mats = await db
     .select()
     .from(materials)
     .where(eq(materials.topic_id, topic.id))
     .orderBy(desc(materials.created_at));
+  const children = await db
+    .select({ id: topics.id, title: topics.title, subject: topics.subject, grade_level: topics.grade_level })
+    .from(topics)
+    .where(eq(topics.parent_id, topic.id))
+    .orderBy(topics.title);
 
   res.json({
     ...topic,
     created_at: topic.created_at?.toISOString(),
     updated_at: topic.updated_at?.toISOString(),
+    ancestors: await topicAncestors(topic),
+    children,
     materials: mats.map((m) => ({
       id: m.id,
       file_name: m.file_name,
       file_size_bytes: m.file_size_bytes,
+      format: m.format ?? "pdf",
+      status: m.status,
+      processing_error: m.processing_error,
+      page_count: m.page_count,
       has_extracted_text: !!m.extracted_text,
+      download_url: canDownload ? signedDownloadUrl(m.id).url : null,
       created_at: m.created_at?.toISOString(),
     })),
   });
 });
 
+app.put("/api/topics/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const topic = await loadManagedTopic(req, res);
+  if (!topic) return;
+
+  const { title, description, subject, grade_level, parent_id } = req.body;
+  const updates: Partial<typeof topics.$inferInsert> = { updated_at: new Date() };
+  for (const [key, value] of Object.entries({ title, subject })) {
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !value.trim()) {
+      res.status(400).json({ error: `${key} cannot be empty` });
+      return;
+    }
+    updates[key as "title" | "subject"] = value.trim();
+  }
+  if (description !== undefined) updates.description = description || null;
+  if (grade_level !== undefined) updates.grade_level = grade_level || null;
+  if (parent_id !== undefined) {
+    if (parent_id && !(await checkTopicParent(req, parent_id, topic.id, res))) return;
+    updates.parent_id = parent_id || null;
+  }
+
+  const [updated] = await db.update(topics).set(updates).where(eq(topics.id, topic.id)).returning();
+  res.json({
+    ...updated,
+    created_at: updated.created_at?.toISOString(),
+    updated_at: updated.updated_at?.toISOString(),
+  });
+});
+
+app.delete("/api/topics/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const topic = await loadManagedTopic(req, res);
+  if (!topic) return;
+
+  const [{ value: childCount }] = await db
+    .select({ value: count() })
+    .from(topics)
+    .where(eq(topics.parent_id, topic.id));
+  if (Number(childCount) > 0) {
+    res.status(400).json({ error: `Topic has ${childCount} subtopic(s); move or delete them first` });
+    return;
+  }
+  const [{ value: attemptCount }] = await db
+    .select({ value: count() })
+    .from(quizAttempts)
+    .innerJoin(quizzes, eq(quizAttempts.quiz_id, quizzes.id))
+    .where(eq(quizzes.topic_id, topic.id));
+  if (Number(attemptCount) > 0) {
+    res.status(400).json({ error: "Topic has quizzes with attempts and cannot be deleted" });
+    return;
+  }
+
+  // Quizzes, materials and chunks cascade; the stored files are released afterwards
+  const keys = await db
+    .selectDistinct({ file_path: materials.file_path })
+    .from(materials)
+    .where(eq(materials.topic_id, topic.id));
+  await db.delete(topics).where(eq(topics.id, topic.id));
+  for (const { file_path } of keys) await releaseStoredFile(file_path);
+  res.json({ deleted: true, id: topic.id });
+});
+
 // ========================================================================
 // MATERIAL ROUTES
 // ========================================================================
 
+// ── Material Processing Queue ──
+
+export const MATERIAL_STATUSES = ["pending", "processing", "ready", "failed"] as const;
+
+const materialQueue: string[] = [];
+let materialWorkerRunning = false;
+
+/** Queue a material for extraction; one file is processed at a time in the background. */
+function enqueueMaterialProcessing(materialId: string): void {
+  if (!materialQueue.includes(materialId)) materialQueue.push(materialId);
+  if (!materialWorkerRunning) {
+    materialWorkerRunning = true;
+    setImmediate(() => {
+      drainMaterialQueue().catch((err) => console.error("Material processing worker failed:", err));
+    });
+  }
+}
+
+async function drainMaterialQueue(): Promise<void> {
+  try {
+    while (materialQueue.length > 0) {
+      const materialId = materialQueue.shift()!;
+      // A database error on one material must not strand the rest of the queue; whatever it
+      // left pending or processing is re-queued on the next restart
+      try {
+        await processMaterial(materialId);
+      } catch (err) {
+        console.error(`Material worker could not process ${materialId}:`, err);
+      }
+    }
+  } finally {
+    materialWorkerRunning = false;
+  }
+}
+
+/** Extract, chunk and analyse one material, recording the outcome in its status. */
+async function processMaterial(materialId: string): Promise<void> {
+  const [mat] = await db.select().from(materials).where(eq(materials.id, materialId)).limit(1);
+  if (!mat) return;
+
+  await db
+    .update(materials)
+    .set({ status: "processing", processing_error: null })
+    .where(eq(materials.id, materialId));
+
+  try {
+    const extractor = findExtractor(mat.file_name, "");
+    if (!extractor) throw new Error("Unsupported file type");
+
+    const { sections } = await extractor.extract(await getStorage().get(mat.file_path));
+    const extractedText = sections.some((p) => p.trim()) ? sections.join("\n\n") : null;
+    if (!extractedText) throw new Error("No text could be extracted (the file may be scanned images)");
+
+    await indexMaterialChunks(mat, sections);
+    await db
+      .update(materials)
+      .set({
+        status: "ready",
+        format: extractor.format,
+        extracted_text: extractedText,
+        page_count: sections.length,
+        language: detectLanguage(extractedText),
+        processed_at: new Date(),
+      })
+      .where(eq(materials.id, materialId));
+  } catch (err) {
+    console.error(`Processing failed for material ${materialId}:`, err);
+    await db
+      .update(materials)
+      .set({
+        status: "failed",
+        processing_error: err instanceof Error ? err.message : String(err),
+        processed_at: new Date(),
+      })
+      .where(eq(materials.id, materialId));
+  }
+}
+
+/** Re-queue materials whose processing was cut short by a restart. */
+async function requeueUnfinishedMaterials(): Promise<void> {
+  const unfinished = await db
+    .select({ id: materials.id })
+    .from(materials)
+    .where(inArray(materials.status, ["pending", "processing"]))
+    .orderBy(materials.created_at);
+  for (const m of unfinished) enqueueMaterialProcessing(m.id);
+}
+
+function serializeMaterial(m: typeof materials.$inferSelect) {
+  return {
+    id: m.id,
+    topic_id: m.topic_id,
+    file_name: m.file_name,
+    file_size_bytes: m.file_size_bytes,
+    format: m.format ?? "pdf",
+    status: m.status,
+    processing_error: m.processing_error,
+    page_count: m.page_count,
+    language: m.language,
+    has_extracted_text: !!m.extracted_text,
+    text_preview: m.extracted_text ? m.extracted_text.slice(0, 200) + "..." : null,
+    created_at: m.created_at?.toISOString(),
+    processed_at: m.processed_at?.toISOString() ?? null,
+  };
+}
+
 app.post(
   "/api/topics/:id/materials",
   authMiddleware,
   roleMiddleware("teacher", "admin"),
-  upload.single("file"),
-  async (req: AuthRequest, res) => {
+  upload.fields([
+    { name: "file", maxCount: 1 },
+    { name: "files", maxCount: 20 },
+  ]),
+  async (req: AuthRequest & { rejectedFiles?: string[] }, res) => {
     const topicId = param(req, "id");
     const [topic] = await db.select().from(topics).where(eq(topics.id, topicId)).limit(1);
     if (!topic) {
@@ -697,56 +2889,332 @@ app.post(
       return;
     }
 
+    const fields = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+    const files = [...(fields.file ?? []), ...(fields.files ?? [])];
+    const rejected = req.rejectedFiles ?? [];
+    if (files.length === 0) {
+      res.status(400).json({
+        error:
+          rejected.length > 0
+            ? `Unsupported file type. Allowed: ${SUPPORTED_EXTENSIONS.join(", ")}`
+            : "No file uploaded",
+      });
+      return;
+    }
+
+    // Identical content already in this topic is skipped; elsewhere its stored file is reused
+    const incoming: Array<{ file: Express.Multer.File; hash: string; storedKey: string | null }> = [];
+    const duplicates: Array<{ file_name: string; duplicate_of: string | null; reason: string }> = [];
+    for (const file of files) {
+      const hash = await hashFile(file.path);
+      const [inTopic] = await db
+        .select({ id: materials.id, file_name: materials.file_name })
+        .from(materials)
+        .where(and(eq(materials.topic_id, topicId), eq(materials.content_hash, hash)))
+        .limit(1);
+      const inBatch = incoming.find((f) => f.hash === hash);
+      if (inTopic || inBatch) {
+        duplicates.push({
+          file_name: file.originalname,
+          duplicate_of: inTopic?.id ?? null,
+          reason: inTopic
+            ? `Identical to "${inTopic.file_name}", already in this topic`
+            : `Identical to "${inBatch!.file.originalname}" in this upload`,
+        });
+        await rm(file.path, { force: true });
+        continue;
+      }
+      const [stored] = await db
+        .select({ file_path: materials.file_path })
+        .from(materials)
+        .where(eq(materials.content_hash, hash))
+        .limit(1);
+      incoming.push({ file, hash, storedKey: stored?.file_path ?? null });
+    }
+
+    const orgStored = topic.organization_id
+      ? new Set(
+          (
+            await db
+              .selectDistinct({ hash: materials.content_hash })
+              .from(materials)
+              .innerJoin(topics, eq(materials.topic_id, topics.id))
+              .where(eq(topics.organization_id, topic.organization_id))
+          ).map((m) => m.hash)
+        )
+      : new Set<string | null>();
+    const addedBytes = incoming
+      .filter((f) => !orgStored.has(f.hash))
+      .reduce((sum, f) => sum + f.file.size, 0);
+    if (!(await checkStorageQuota(topic.organization_id, addedBytes, res))) {
+      await Promise.all(incoming.map((f) => rm(f.file.path, { force: true })));
+      return;
+    }
+
+    const created: Array<typeof materials.$inferSelect> = [];
+    for (const { file, hash, storedKey } of incoming) {
+      let key = storedKey;
+      if (key) await rm(file.path, { force: true });
+      else key = await moveUploadToStorage(file, hash);
+      const [mat] = await db
+        .insert(materials)
+        .values({
+          id: genId(),
+          topic_id: topicId,
+          file_name: file.originalname,
+          file_path: key,
+          file_size_bytes: file.size,
+          format: findExtractor(file.originalname, file.mimetype)!.format,
+          content_hash: hash,
+          status: "pending",
+          uploaded_by: req.user!.userId,
+        })
+        .returning();
+      created.push(mat);
+      enqueueMaterialProcessing(mat.id);
+    }
+
+    const reports = [
+      ...created.map(serializeMaterial),
+      ...duplicates.map((d) => ({
+        id: null,
+        file_name: d.file_name,
+        status: "duplicate",
+        duplicate_of: d.duplicate_of,
+        processing_error: d.reason,
+      })),
+      ...rejected.map((name) => ({
+        id: null,
+        file_name: name,
+        status: "rejected",
+        processing_error: `Unsupported file type. Allowed: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+      })),
+    ];
+
+    // Processing continues in the background; poll GET /api/materials/:id for its status
+    if (fields.file && !fields.files && rejected.length === 0) {
+      res.status(created.length > 0 ? 202 : 200).json(reports[0]);
+      return;
+    }
+    res.status(202).json({
+      uploaded: created.length,
+      duplicates: duplicates.length,
+      rejected: rejected.length,
+      materials: reports,
+    });
+  }
+);
+
+app.get("/api/materials/:id", authMiddleware, async (req: AuthRequest, res) => {
+  const mat = await loadReadableMaterial(req, res);
+  if (!mat) return;
+  const [chunks] = await db
+    .select({ value: count() })
+    .from(materialChunks)
+    .where(eq(materialChunks.material_id, mat.id));
+  res.json({ ...serializeMaterial(mat), chunk_count: chunks?.value ?? 0 });
+});
+
+app.post(
+  "/api/materials/:id/retry",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const managed = await loadManagedMaterial(req, res);
+    if (!managed) return;
+    const { material: mat } = managed;
+    if (mat.status !== "failed") {
+      res.status(400).json({ error: `Only failed materials can be retried (status is ${mat.status})` });
+      return;
+    }
+
+    const [updated] = await db
+      .update(materials)
+      .set({ status: "pending", processing_error: null })
+      .where(eq(materials.id, mat.id))
+      .returning();
+    enqueueMaterialProcessing(mat.id);
+    res.status(202).json(serializeMaterial(updated));
+  }
+);
+
+app.patch(
+  "/api/materials/:id",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const managed = await loadManagedMaterial(req, res);
+    if (!managed) return;
+    const { material: mat } = managed;
+
+    const fileName = typeof req.body.file_name === "string" ? req.body.file_name.trim() : "";
+    if (!fileName || fileName.length > 255) {
+      res.status(400).json({ error: "file_name is required (at most 255 characters)" });
+      return;
+    }
+    // The extension picks the extractor, so a rename must keep the file type
+    if (findExtractor(fileName, "")?.format !== (mat.format ?? "pdf")) {
+      res.status(400).json({ error: "A rename cannot change the file type; upload a replacement instead" });
+      return;
+    }
+
+    const [updated] = await db
+      .update(materials)
+      .set({ file_name: fileName })
+      .where(eq(materials.id, mat.id))
+      .returning();
+    res.json(serializeMaterial(updated));
+  }
+);
+
+app.put(
+  "/api/materials/:id/file",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  upload.single("file"),
+  async (req: AuthRequest & { rejectedFiles?: string[] }, res) => {
     const file = req.file;
+    const managed = await loadManagedMaterial(req, res);
+    if (!managed) {
+      if (file) await rm(file.path, { force: true });
+      return;
+    }
+    const { material: mat, topic } = managed;
     if (!file) {
-      res.status(400).json({ error: "No file uploaded" });
+      res.status(400).json({
+        error: req.rejectedFiles?.length
+          ? `Unsupported file type. Allowed: ${SUPPORTED_EXTENSIONS.join(", ")}`
+          : "No file uploaded",
+      });
       return;
     }
 
-    // Extract text from PDF
-    let extractedText: string | null = null;
-    try {
-      const dataBuffer = readFileSync(file.path);
-      const pdfData = await pdfParse(dataBuffer);
-      extractedText = pdfData.text;
-    } catch (err) {
-      console.error("PDF text extraction failed:", err);
+    const hash = await hashFile(file.path);
+    if (hash === mat.content_hash) {
+      await rm(file.path, { force: true });
+      res.json(serializeMaterial(mat));
+      return;
     }
 
-    const id = genId();
-    await db.insert(materials).values({
-      id,
-      topic_id: topicId,
-      file_name: file.originalname,
-      file_path: file.path,
-      file_size_bytes: file.size,
-      extracted_text: extractedText,
-      uploaded_by: req.user!.userId,
+    const [stored] = await db
+      .select({ file_path: materials.file_path })
+      .from(materials)
+      .where(eq(materials.content_hash, hash))
+      .limit(1);
+    // As on upload, a file the organization already stores costs nothing, and the old file
+    // only frees space when no other material of the organization still shares it
+    let addedBytes = file.size;
+    let freedBytes = 0;
+    if (topic.organization_id) {
+      const orgFiles = await db
+        .select({ id: materials.id, hash: materials.content_hash, file_path: materials.file_path })
+        .from(materials)
+        .innerJoin(topics, eq(materials.topic_id, topics.id))
+        .where(eq(topics.organization_id, topic.organization_id));
+      if (orgFiles.some((m) => m.hash === hash)) addedBytes = 0;
+      if (!orgFiles.some((m) => m.id !== mat.id && m.file_path === mat.file_path)) {
+        freedBytes = mat.file_size_bytes ?? 0;
+      }
+    }
+    if (!(await checkStorageQuota(topic.organization_id, addedBytes, res, freedBytes))) {
+      await rm(file.path, { force: true });
+      return;
+    }
+    let key = stored?.file_path;
+    if (key) await rm(file.path, { force: true });
+    else key = await moveUploadToStorage(file, hash);
+
+    // Old chunks would otherwise keep answering retrieval until the new file is processed
+    const updated = await db.transaction(async (tx) => {
+      await tx.delete(materialChunks).where(eq(materialChunks.material_id, mat.id));
+      const [row] = await tx
+        .update(materials)
+        .set({
+          file_name: file.originalname,
+          file_path: key,
+          file_size_bytes: file.size,
+          format: findExtractor(file.originalname, file.mimetype)!.format,
+          content_hash: hash,
+          extracted_text: null,
+          status: "pending",
+          processing_error: null,
+          page_count: null,
+          language: null,
+          processed_at: null,
+          uploaded_by: req.user!.userId,
+        })
+        .where(eq(materials.id, mat.id))
+        .returning();
+      return row;
     });
+    if (mat.file_path !== updated.file_path) await releaseStoredFile(mat.file_path);
 
-    res.status(201).json({
-      id,
-      file_name: file.originalname,
-      file_size_bytes: file.size,
-      has_extracted_text: !!extractedText,
-      text_preview: extractedText ? extractedText.slice(0, 200) + "..." : null,
-    });
+    enqueueMaterialProcessing(mat.id);
+    res.status(202).json(serializeMaterial(updated));
   }
 );
 
-app.get("/api/materials/:id/download", authMiddleware, async (req, res) => {
-  const [mat] = await db.select().from(materials).where(eq(materials.id, param(req, "id"))).limit(1);
-  if (!mat) {
-    res.status(404).json({ error: "Material not found" });
-    return;
-  }
-  if (!existsSync(mat.file_path)) {
-    res.status(404).json({ error: "File not found on disk" });
-    return;
+app.delete(
+  "/api/materials/:id",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const managed = await loadManagedMaterial(req, res);
+    if (!managed) return;
+    const { material: mat } = managed;
+
+    // Chunks cascade; questions citing the material keep their text and lose the citation
+    await db.delete(materials).where(eq(materials.id, mat.id));
+    await releaseStoredFile(mat.file_path);
+    res.json({ deleted: true, id: mat.id });
   }
-  res.download(mat.file_path, mat.file_name);
+);
+
+app.get("/api/materials/:id/download-url", authMiddleware, async (req: AuthRequest, res) => {
+  const mat = await loadReadableMaterial(req, res);
+  if (!mat) return;
+  res.json(signedDownloadUrl(mat.id));
 });
 
+app.get(
+  "/api/materials/:id/download",
+  (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    // Signed links stand in for the login, so they work in <a href> and <iframe src>
+    if (req.query.signature !== undefined) {
+      if (!verifyDownloadSignature(param(req, "id"), req.query.expires, req.query.signature)) {
+        res.status(403).json({ error: "Download link is invalid or has expired" });
+        return;
+      }
+      next();
+      return;
+    }
+    authMiddleware(req, res, next);
+  },
+  async (req: AuthRequest, res) => {
+    let mat: typeof materials.$inferSelect | null;
+    if (req.user) {
+      mat = await loadReadableMaterial(req, res);
+    } else {
+      const [row] = await db.select().from(materials).where(eq(materials.id, param(req, "id"))).limit(1);
+      mat = row ?? null;
+      if (!mat) res.status(404).json({ error: "Material not found" });
+    }
+    if (!mat) return;
+
+    const stream = await getStorage().stream(mat.file_path);
+    if (!stream) {
+      res.status(404).json({ error: "File not found in storage" });
+      return;
+    }
+    res.attachment(mat.file_name);
+    stream.on("error", (err) => {
+      console.error(`Download of material ${mat.id} failed:`, err);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  }
+);
+
 // ========================================================================
 // QUIZ ROUTES
 // ========================================================================
@@ -758,6 +3226,12 @@ app.post("/api/quizzes", authMiddleware, roleMiddleware("teacher", "admin"), asy
     return;
   }
 
+  const policy = parseAttemptPolicy(req.body);
+  if (!policy.ok) {
+    res.status(400).json({ error: policy.error });
+    return;
+  }
+
   const [topic] = await db.select().from(topics).where(eq(topics.id, topic_id)).limit(1);
   if (!topic) {
     res.status(404).json({ error: "Topic not found" });
@@ -766,6 +3240,7 @@ app.post("/api/quizzes", authMiddleware, roleMiddleware("teacher", "admin"), asy
 
   const id = genId();
   await db.insert(quizzes).values({
+    ...policy.fields,
     id,
     title,
     topic_id,
@@ -784,6 +3259,7 @@ app.post("/api/quizzes", authMiddleware, roleMiddleware("teacher", "admin"), asy
 
 app.get("/api/quizzes", authMiddleware, async (req: AuthRequest, res) => {
   let rows;
+  let assignmentsByQuiz: Map<string, Awaited<ReturnType<typeof studentAssignments>>> | undefined;
   if (req.user!.role === "teacher") {
     rows = await db
       .select()
@@ -791,17 +3267,21 @@ app.get("/api/quizzes", authMiddleware, async (req: AuthRequest, res) => {
       .where(eq(quizzes.teacher_id, req.user!.userId))
       .orderBy(desc(quizzes.created_at));
   } else if (req.user!.role === "student") {
-    rows = await db
-      .select()
-      .from(quizzes)
-      .where(eq(quizzes.status, "published"))
-      .orderBy(desc(quizzes.created_at));
+    // Students only see published quizzes assigned to one of their classes
+    const assignments = await studentAssignments(req.user!.userId);
+    rows = await assignedPublishedQuizzes(req.user!.userId);
+    assignmentsByQuiz = new Map();
+    for (const a of assignments) {
+      if (!assignmentsByQuiz.has(a.quiz_id)) assignmentsByQuiz.set(a.quiz_id, []);
+      assignmentsByQuiz.get(a.quiz_id)!.push(a);
+    }
   } else {
     rows = await db.select().from(quizzes).orderBy(desc(quizzes.created_at));
   }
 
   const enriched = await Promise.all(
     rows.map(async (q) => {
+      const assigned = assignmentsByQuiz?.get(q.id);
       const [{ value: qCount }] = await db
         .select({ value: count() })
         .from(questions)
@@ -818,6 +3298,12 @@ app.get("/api/quizzes", authMiddleware, async (req: AuthRequest, res) => {
         total_marks: q.total_marks,
         question_count: Number(qCount),
         created_at: q.created_at?.toISOString(),
+        ...(assigned
+          ? {
+              classes: assigned.map((a) => ({ id: a.class_id, name: a.class_name })),
+              due_at: effectiveDueAt(assigned)?.toISOString() ?? null,
+            }
+          : {}),
       };
     })
   );
@@ -831,6 +3317,12 @@ app.get("/api/quizzes/:id", authMiddleware, async (req: AuthRequest, res) => {
     res.status(404).json({ error: "Quiz not found" });
     return;
   }
+  const isStudent = req.user!.role === "student";
+  // A draft or scheduled quiz stays hidden from students until it opens
+  if (isStudent && (quiz.status === "draft" || quiz.status === "scheduled")) {
+    res.status(404).json({ error: "Quiz not found" });
+    return;
+  }
 
   const qs = await db
     .select()
@@ -839,7 +3331,12 @@ app.get("/api/quizzes/:id", authMiddleware, async (req: AuthRequest, res) => {
     .orderBy(questions.order_index);
 
   // For students, hide correct answers unless quiz is completed
-  const isStudent = req.user!.role === "student";
+  const assigned = isStudent ? await studentAssignments(req.user!.userId, quiz.id) : [];
+  if (isStudent && assigned.length === 0) {
+    res.status(403).json({ error: "This quiz is not assigned to any of your classes" });
+    return;
+  }
+  const sources = isStudent ? new Map<string, QuestionSource>() : await loadQuestionSources(qs);
 
   res.json({
     id: quiz.id,
@@ -851,9 +3348,13 @@ app.get("/api/quizzes/:id", authMiddleware, async (req: AuthRequest, res) => {
     time_limit_minutes: quiz.time_limit_minutes,
     total_marks: quiz.total_marks,
     pass_percentage: quiz.pass_percentage,
+    max_attempts: quiz.max_attempts,
+    attempt_cooldown_minutes: quiz.attempt_cooldown_minutes,
+    scoring_policy: quiz.scoring_policy,
     scheduled_at: quiz.scheduled_at?.toISOString(),
     expires_at: quiz.expires_at?.toISOString(),
     created_at: quiz.created_at?.toISOString(),
+    ...(isStudent ? { due_at: effectiveDueAt(assigned)?.toISOString() ?? null } : {}),
     questions: qs.map((q) => ({
       id: q.id,
       question_text: q.question_text,
@@ -865,37 +3366,482 @@ app.get("/api/quizzes/:id", authMiddleware, async (req: AuthRequest, res) => {
       ...(isStudent
         ? {}
         : {
-            correct_answer: q.correct_answer,
-            explanation: q.explanation,
+            correct_answer: q.correct_answer,
+            explanation: q.explanation,
+            rubric: q.rubric,
+            source: sources.get(q.id) ?? null,
+          }),
+    })),
+  });
+});
+
+app.put("/api/quizzes/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res, { editable: true });
+  if (!quiz) return;
+
+  const { title, topic_id, quiz_type, time_limit_minutes, scheduled_at, expires_at, pass_percentage } = req.body;
+  const updates: Partial<typeof quizzes.$inferInsert> = {};
+
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim()) {
+      res.status(400).json({ error: "title cannot be empty" });
+      return;
+    }
+    updates.title = title.trim();
+  }
+  if (topic_id !== undefined && topic_id !== quiz.topic_id) {
+    const [topic] = await db.select().from(topics).where(eq(topics.id, topic_id)).limit(1);
+    if (!topic) {
+      res.status(404).json({ error: "Topic not found" });
+      return;
+    }
+    updates.topic_id = topic_id;
+  }
+  if (quiz_type !== undefined) updates.quiz_type = quiz_type || "practice";
+  if (time_limit_minutes !== undefined) {
+    if (time_limit_minutes !== null && !(Number.isInteger(time_limit_minutes) && time_limit_minutes > 0)) {
+      res.status(400).json({ error: "time_limit_minutes must be a positive integer or null" });
+      return;
+    }
+    updates.time_limit_minutes = time_limit_minutes;
+  }
+  if (pass_percentage !== undefined) {
+    if (!(Number.isInteger(pass_percentage) && pass_percentage >= 0 && pass_percentage <= 100)) {
+      res.status(400).json({ error: "pass_percentage must be an integer between 0 and 100" });
+      return;
+    }
+    updates.pass_percentage = pass_percentage;
+  }
+  const policy = parseAttemptPolicy(req.body);
+  if (!policy.ok) {
+    res.status(400).json({ error: policy.error });
+    return;
+  }
+  Object.assign(updates, policy.fields);
+  if (scheduled_at !== undefined) updates.scheduled_at = scheduled_at ? new Date(scheduled_at) : null;
+  if (expires_at !== undefined) updates.expires_at = expires_at ? new Date(expires_at) : null;
+
+  const scheduledAt = updates.scheduled_at !== undefined ? updates.scheduled_at : quiz.scheduled_at;
+  const expiresAt = updates.expires_at !== undefined ? updates.expires_at : quiz.expires_at;
+  if ((scheduledAt && isNaN(scheduledAt.getTime())) || (expiresAt && isNaN(expiresAt.getTime()))) {
+    res.status(400).json({ error: "scheduled_at and expires_at must be valid dates" });
+    return;
+  }
+  if (scheduledAt && expiresAt && scheduledAt >= expiresAt) {
+    res.status(400).json({ error: "expires_at must be after scheduled_at" });
+    return;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    res.status(400).json({ error: "No changes provided" });
+    return;
+  }
+
+  // Moving the start time keeps a published/scheduled quiz in the matching state
+  if (updates.scheduled_at !== undefined && (quiz.status === "scheduled" || quiz.status === "published")) {
+    updates.status = publishTarget(scheduledAt ?? null);
+  }
+
+  const [updated] = await db
+    .update(quizzes)
+    .set({ ...updates, updated_at: new Date() })
+    .where(eq(quizzes.id, quiz.id))
+    .returning();
+
+  res.json({
+    id: updated.id,
+    title: updated.title,
+    topic_id: updated.topic_id,
+    quiz_type: updated.quiz_type,
+    status: updated.status,
+    time_limit_minutes: updated.time_limit_minutes,
+    total_marks: updated.total_marks,
+    pass_percentage: updated.pass_percentage,
+    max_attempts: updated.max_attempts,
+    attempt_cooldown_minutes: updated.attempt_cooldown_minutes,
+    scoring_policy: updated.scoring_policy,
+    scheduled_at: updated.scheduled_at?.toISOString(),
+    expires_at: updated.expires_at?.toISOString(),
+    updated_at: updated.updated_at?.toISOString(),
+  });
+});
+
+/** Apply a status transition if the state machine allows it, or send a 400. */
+async function transitionQuiz(
+  quiz: typeof quizzes.$inferSelect,
+  to: QuizStatus,
+  res: express.Response
+): Promise<boolean> {
+  if (!canTransition(quiz.status, to)) {
+    res.status(400).json({ error: `Cannot move a ${quiz.status} quiz to ${to}` });
+    return false;
+  }
+  await db.update(quizzes).set({ status: to, updated_at: new Date() }).where(eq(quizzes.id, quiz.id));
+  return true;
+}
+
+app.put("/api/quizzes/:id/publish", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+
+  const [{ value: qCount }] = await db
+    .select({ value: count() })
+    .from(questions)
+    .where(eq(questions.quiz_id, quiz.id));
+
+  if (Number(qCount) === 0) {
+    res.status(400).json({ error: "Cannot publish a quiz with no questions" });
+    return;
+  }
+  if (quiz.expires_at && quiz.expires_at.getTime() <= Date.now()) {
+    res.status(400).json({ error: "Cannot publish a quiz whose expires_at has passed" });
+    return;
+  }
+
+  const target = publishTarget(quiz.scheduled_at);
+  if (quiz.status === target) {
+    res.json({ id: quiz.id, status: target });
+    return;
+  }
+  if (!(await transitionQuiz(quiz, target, res))) return;
+
+  res.json({ id: quiz.id, status: target, scheduled_at: quiz.scheduled_at?.toISOString() });
+});
+
+app.put("/api/quizzes/:id/unpublish", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+  if (!(await transitionQuiz(quiz, "draft", res))) return;
+  res.json({ id: quiz.id, status: "draft" });
+});
+
+app.put("/api/quizzes/:id/close", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+  if (!(await transitionQuiz(quiz, "closed", res))) return;
+  res.json({ id: quiz.id, status: "closed" });
+});
+
+app.put("/api/quizzes/:id/archive", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+  if (!(await transitionQuiz(quiz, "archived", res))) return;
+  res.json({ id: quiz.id, status: "archived" });
+});
+
+app.post("/api/quizzes/:id/duplicate", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+
+  const qs = await db
+    .select()
+    .from(questions)
+    .where(eq(questions.quiz_id, quiz.id))
+    .orderBy(questions.order_index);
+
+  const newId = genId();
+  const title = (req.body?.title as string | undefined)?.trim() || `${quiz.title} (Copy)`;
+
+  await db.transaction(async (tx) => {
+    await tx.insert(quizzes).values({
+      id: newId,
+      title,
+      topic_id: quiz.topic_id,
+      teacher_id: req.user!.userId,
+      quiz_type: quiz.quiz_type,
+      status: "draft",
+      time_limit_minutes: quiz.time_limit_minutes,
+      total_marks: quiz.total_marks,
+      pass_percentage: quiz.pass_percentage,
+      max_attempts: quiz.max_attempts,
+      attempt_cooldown_minutes: quiz.attempt_cooldown_minutes,
+      scoring_policy: quiz.scoring_policy,
+    });
+    if (qs.length > 0) {
+      await tx.insert(questions).values(
+        qs.map((q) => ({
+          ...q,
+          id: genId(),
+          quiz_id: newId,
+        }))
+      );
+    }
+  });
+
+  res.status(201).json({
+    id: newId,
+    title,
+    topic_id: quiz.topic_id,
+    status: "draft",
+    quiz_type: quiz.quiz_type,
+    duplicated_from: quiz.id,
+    question_count: qs.length,
+    total_marks: quiz.total_marks,
+  });
+});
+
+app.delete("/api/quizzes/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res);
+  if (!quiz) return;
+  if (quiz.status !== "draft") {
+    res.status(400).json({ error: "Only draft quizzes can be deleted; archive it instead" });
+    return;
+  }
+
+  const [{ value: attemptCount }] = await db
+    .select({ value: count() })
+    .from(quizAttempts)
+    .where(eq(quizAttempts.quiz_id, quiz.id));
+  if (Number(attemptCount) > 0) {
+    res.status(400).json({ error: "Quiz has attempts and cannot be deleted; archive it instead" });
+    return;
+  }
+
+  await db.delete(quizzes).where(eq(quizzes.id, quiz.id));
+  res.json({ deleted: true, id: quiz.id });
+});
+
+// ── Question Bank Routes ──
+
+/** Refuse to change graded content unless the teacher explicitly opted into a regrade. */
+async function guardEvaluatedAttempts(quizId: string, regrade: unknown, res: express.Response): Promise<boolean> {
+  if (regrade === true) return true;
+  const evaluated = await countEvaluatedAttempts(quizId);
+  if (evaluated > 0) {
+    res.status(409).json({
+      error: `Quiz has ${evaluated} evaluated attempt(s). Pass "regrade": true to apply this change and regrade them.`,
+      evaluated_attempts: evaluated,
+    });
+    return false;
+  }
+  return true;
+}
+
+function serializeQuestion(q: QuestionRow) {
+  return {
+    id: q.id,
+    quiz_id: q.quiz_id,
+    question_text: q.question_text,
+    question_type: q.question_type,
+    options: q.options,
+    correct_answer: q.correct_answer,
+    marks: q.marks,
+    explanation: q.explanation,
+    difficulty: q.difficulty,
+    order_index: q.order_index,
+    rubric: q.rubric,
+    source_material_id: q.source_material_id,
+    source_page_start: q.source_page_start,
+    source_page_end: q.source_page_end,
+  };
+}
+
+app.post("/api/quizzes/:id/questions", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quiz = await loadManagedQuiz(req, res, { editable: true });
+  if (!quiz) return;
+
+  const validation = validateQuestion(req.body);
+  if (!validation.ok) {
+    res.status(400).json({ error: validation.error });
+    return;
+  }
+  if (!(await checkSourceMaterial(quiz.topic_id, validation.question.source_material_id, res))) return;
+  if (!(await guardEvaluatedAttempts(quiz.id, req.body.regrade, res))) return;
+
+  const [last] = await db
+    .select({ value: sql<number>`coalesce(max(${questions.order_index}), -1)::int` })
+    .from(questions)
+    .where(eq(questions.quiz_id, quiz.id));
+
+  const id = genId();
+  const [created] = await db
+    .insert(questions)
+    .values({
+      id,
+      quiz_id: quiz.id,
+      ...validation.question,
+      options: validation.question.options as string[] | null,
+      order_index: Number(last?.value ?? -1) + 1,
+    })
+    .returning();
+
+  const totalMarks = await syncQuizTotalMarks(quiz.id);
+  res.status(201).json({ ...serializeQuestion(created), quiz_total_marks: totalMarks });
+});
+
+app.put(
+  "/api/quizzes/:id/questions/reorder",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const quiz = await loadManagedQuiz(req, res, { editable: true });
+    if (!quiz) return;
+
+    const { question_ids } = req.body;
+    if (!Array.isArray(question_ids) || question_ids.length === 0) {
+      res.status(400).json({ error: "question_ids must be a non-empty array" });
+      return;
+    }
+
+    const qs = await db.select().from(questions).where(eq(questions.quiz_id, quiz.id));
+    const existingIds = new Set(qs.map((q) => q.id));
+    if (
+      question_ids.length !== qs.length ||
+      new Set(question_ids).size !== qs.length ||
+      !question_ids.every((qid: string) => existingIds.has(qid))
+    ) {
+      res.status(400).json({ error: "question_ids must list every question in this quiz exactly once" });
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [index, qid] of (question_ids as string[]).entries()) {
+        await tx.update(questions).set({ order_index: index }).where(eq(questions.id, qid));
+      }
+    });
+
+    res.json({ quiz_id: quiz.id, order: question_ids });
+  }
+);
+
+app.put(
+  "/api/quizzes/:id/questions/:questionId",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const quiz = await loadManagedQuiz(req, res, { editable: true });
+    if (!quiz) return;
+
+    const [existing] = await db
+      .select()
+      .from(questions)
+      .where(and(eq(questions.id, param(req, "questionId")), eq(questions.quiz_id, quiz.id)))
+      .limit(1);
+    if (!existing) {
+      res.status(404).json({ error: "Question not found" });
+      return;
+    }
+
+    // Partial updates are merged over the stored question and re-validated as a whole
+    const validation = validateQuestion({
+      question_text: req.body.question_text ?? existing.question_text,
+      question_type: req.body.question_type ?? existing.question_type,
+      options: req.body.options !== undefined ? req.body.options : existing.options,
+      correct_answer: req.body.correct_answer ?? existing.correct_answer,
+      marks: req.body.marks ?? existing.marks,
+      explanation: req.body.explanation !== undefined ? req.body.explanation : existing.explanation,
+      difficulty: req.body.difficulty ?? existing.difficulty,
+      rubric: req.body.rubric !== undefined ? req.body.rubric : existing.rubric,
+      // Citation fields are replaced together so a new material never keeps the old page range
+      ...(req.body.source_material_id !== undefined
+        ? {
+            source_material_id: req.body.source_material_id,
+            source_page_start: req.body.source_page_start,
+            source_page_end: req.body.source_page_end,
+          }
+        : {
+            source_material_id: existing.source_material_id,
+            source_page_start: existing.source_page_start,
+            source_page_end: existing.source_page_end,
           }),
-    })),
-  });
-});
+    });
+    if (!validation.ok) {
+      res.status(400).json({ error: validation.error });
+      return;
+    }
+    if (!(await checkSourceMaterial(quiz.topic_id, validation.question.source_material_id, res))) return;
+    if (!(await guardEvaluatedAttempts(quiz.id, req.body.regrade, res))) return;
 
-app.put("/api/quizzes/:id/publish", authMiddleware, roleMiddleware("teacher", "admin"), async (req, res) => {
-  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, param(req, "id"))).limit(1);
-  if (!quiz) {
-    res.status(404).json({ error: "Quiz not found" });
-    return;
-  }
+    const [updated] = await db
+      .update(questions)
+      .set({ ...validation.question, options: validation.question.options as string[] | null })
+      .where(eq(questions.id, existing.id))
+      .returning();
 
-  const [{ value: qCount }] = await db
-    .select({ value: count() })
-    .from(questions)
-    .where(eq(questions.quiz_id, quiz.id));
+    const totalMarks = await syncQuizTotalMarks(quiz.id);
 
-  if (Number(qCount) === 0) {
-    res.status(400).json({ error: "Cannot publish a quiz with no questions" });
-    return;
+    // Regrade every stored answer to this question and rescore the affected attempts
+    const answers = (
+      await db
+        .select({ answer: studentAnswers })
+        .from(studentAnswers)
+        .innerJoin(quizAttempts, eq(studentAnswers.attempt_id, quizAttempts.id))
+        .where(and(eq(studentAnswers.question_id, existing.id), eq(quizAttempts.status, "evaluated")))
+    )
+      .map((r) => r.answer)
+      // Manual grades from the teacher survive a regrade
+      .filter((a) => a.graded_by !== "teacher");
+    for (const ans of answers) {
+      const grade = gradeAnswer(updated, ans.answer_text ?? "");
+      await db
+        .update(studentAnswers)
+        .set({
+          is_correct: grade.isCorrect,
+          marks_awarded: grade.marksAwarded,
+          ai_feedback: grade.feedback,
+          rubric_scores: grade.criteria ?? null,
+          graded_by: "auto",
+        })
+        .where(eq(studentAnswers.id, ans.id));
+    }
+    const affectedAttempts = [...new Set(answers.map((a) => a.attempt_id))];
+    for (const attemptId of affectedAttempts) {
+      await recomputeAttemptScore(attemptId);
+    }
+
+    res.json({ ...serializeQuestion(updated), quiz_total_marks: totalMarks, regraded_attempts: affectedAttempts.length });
   }
+);
 
-  await db
-    .update(quizzes)
-    .set({ status: "published", updated_at: new Date() })
-    .where(eq(quizzes.id, quiz.id));
+app.delete(
+  "/api/quizzes/:id/questions/:questionId",
+  authMiddleware,
+  roleMiddleware("teacher", "admin"),
+  async (req: AuthRequest, res) => {
+    const quiz = await loadManagedQuiz(req, res, { editable: true });
+    if (!quiz) return;
 
-  res.json({ id: quiz.id, status: "published" });
-});
+    const [existing] = await db
+      .select()
+      .from(questions)
+      .where(and(eq(questions.id, param(req, "questionId")), eq(questions.quiz_id, quiz.id)))
+      .limit(1);
+    if (!existing) {
+      res.status(404).json({ error: "Question not found" });
+      return;
+    }
+    if (!(await guardEvaluatedAttempts(quiz.id, req.query.regrade === "true" || req.body?.regrade, res))) return;
+
+    const answers = await db
+      .select({ attempt_id: studentAnswers.attempt_id })
+      .from(studentAnswers)
+      .innerJoin(quizAttempts, eq(studentAnswers.attempt_id, quizAttempts.id))
+      .where(and(eq(studentAnswers.question_id, existing.id), eq(quizAttempts.status, "evaluated")));
+    const affectedAttempts = [...new Set(answers.map((a) => a.attempt_id))];
+
+    // Answers to the question are removed by the cascade
+    await db.delete(questions).where(eq(questions.id, existing.id));
+
+    // Close the gap left in order_index
+    const remaining = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quiz_id, quiz.id))
+      .orderBy(questions.order_index);
+    for (const [index, q] of remaining.entries()) {
+      if (q.order_index !== index) {
+        await db.update(questions).set({ order_index: index }).where(eq(questions.id, q.id));
+      }
+    }
+
+    const totalMarks = await syncQuizTotalMarks(quiz.id);
+    for (const attemptId of affectedAttempts) {
+      await recomputeAttemptScore(attemptId);
+    }
+
+    res.json({ deleted: true, question_id: existing.id, quiz_total_marks: totalMarks, regraded_attempts: affectedAttempts.length });
+  }
+);
 
 // ── Quiz Attempt Routes ──
 
@@ -906,10 +3852,24 @@ app.post("/api/quizzes/:id/attempt", authMiddleware, roleMiddleware("student"),
     res.status(404).json({ error: "Quiz not found" });
     return;
   }
+  const now = new Date();
+  if (quiz.scheduled_at && quiz.scheduled_at.getTime() > now.getTime()) {
+    res.status(400).json({ error: "Quiz has not opened yet", opens_at: quiz.scheduled_at.toISOString() });
+    return;
+  }
+  if (quiz.expires_at && quiz.expires_at.getTime() <= now.getTime()) {
+    res.status(400).json({ error: "Quiz has closed", closed_at: quiz.expires_at.toISOString() });
+    return;
+  }
   if (quiz.status !== "published") {
     res.status(400).json({ error: "Quiz is not available" });
     return;
   }
+  const assigned = await studentAssignments(req.user!.userId, quizId);
+  if (assigned.length === 0) {
+    res.status(403).json({ error: "This quiz is not assigned to any of your classes" });
+    return;
+  }
 
   // Check for existing in-progress attempt
   const [existing] = await db
@@ -925,325 +3885,295 @@ app.post("/api/quizzes/:id/attempt", authMiddleware, roleMiddleware("student"),
     .limit(1);
 
   if (existing) {
-    res.json({ attempt_id: existing.id, status: "in_progress", message: "Resuming existing attempt" });
-    return;
+    const deadline = attemptDeadline(existing, quiz);
+    if (!isPastDeadline(deadline, now)) {
+      res.json({
+        attempt_id: existing.id,
+        status: "in_progress",
+        message: "Resuming existing attempt",
+        started_at: existing.started_at.toISOString(),
+        deadline: deadline?.toISOString() ?? null,
+        remaining_seconds: remainingSeconds(deadline, now),
+        saved_answers: await loadSavedAnswers(existing.id),
+      });
+      return;
+    }
+    // The previous attempt ran out of time while the student was away
+    await expireAttempt(existing.id, deadline!);
   }
 
-  const attemptId = genId();
-  await db.insert(quizAttempts).values({
-    id: attemptId,
-    quiz_id: quizId,
-    student_id: req.user!.userId,
-    total_marks: quiz.total_marks,
-    status: "in_progress",
-  });
-
-  res.status(201).json({ attempt_id: attemptId, status: "in_progress" });
-});
-
-app.post("/api/quizzes/:id/submit", authMiddleware, roleMiddleware("student"), async (req: AuthRequest, res) => {
-  const quizId = param(req, "id");
-  const { attempt_id, answers: submittedAnswers } = req.body;
-
-  if (!attempt_id || !submittedAnswers) {
-    res.status(400).json({ error: "attempt_id and answers are required" });
+  // An attempt already under way may be finished, but no new one starts after the due date
+  const dueAt = effectiveDueAt(assigned);
+  if (dueAt && dueAt.getTime() <= now.getTime()) {
+    res.status(400).json({ error: "This quiz is past its due date", due_at: dueAt.toISOString() });
     return;
   }
 
-  const [attempt] = await db
+  // Attempt policy: maximum attempts and cooldown between attempts. Live games don't use either up.
+  const previous = await db
     .select()
     .from(quizAttempts)
     .where(
       and(
-        eq(quizAttempts.id, attempt_id),
         eq(quizAttempts.quiz_id, quizId),
-        eq(quizAttempts.student_id, req.user!.userId)
+        eq(quizAttempts.student_id, req.user!.userId),
+        eq(quizAttempts.status, "evaluated"),
+        eq(quizAttempts.source, "quiz")
       )
     )
-    .limit(1);
+    .orderBy(desc(quizAttempts.submitted_at));
 
-  if (!attempt) {
-    res.status(404).json({ error: "Attempt not found" });
+  if (quiz.max_attempts && previous.length >= quiz.max_attempts) {
+    res.status(400).json({
+      error: `Maximum of ${quiz.max_attempts} attempt(s) reached for this quiz`,
+      attempts_used: previous.length,
+      max_attempts: quiz.max_attempts,
+    });
     return;
   }
-  if (attempt.status !== "in_progress") {
-    res.status(400).json({ error: "Attempt already submitted" });
+  const cooldown = cooldownRemainingMinutes(previous[0]?.submitted_at ?? null, quiz.attempt_cooldown_minutes, now);
+  if (cooldown > 0) {
+    res.status(400).json({
+      error: `Please wait ${cooldown} more minute(s) before retaking this quiz`,
+      retry_after_minutes: cooldown,
+    });
     return;
   }
 
-  // Get quiz questions
-  const qs = await db.select().from(questions).where(eq(questions.quiz_id, quizId));
-  const questionMap = new Map(qs.map((q) => [q.id, q]));
-
-  let totalScore = 0;
-  let totalMarks = 0;
+  const attemptId = genId();
+  const [created] = await db
+    .insert(quizAttempts)
+    .values({
+      id: attemptId,
+      quiz_id: quizId,
+      student_id: req.user!.userId,
+      total_marks: quiz.total_marks,
+      status: "in_progress",
+    })
+    .returning();
 
-  const answerRecords: Array<{
-    attempt_id: string;
-    question_id: string;
-    answer_text: string;
-    is_correct: boolean;
-    marks_awarded: number;
-    ai_feedback: string | null;
-  }> = [];
+  const deadline = attemptDeadline(created, quiz);
+  res.status(201).json({
+    attempt_id: attemptId,
+    status: "in_progress",
+    started_at: created.started_at.toISOString(),
+    deadline: deadline?.toISOString() ?? null,
+    remaining_seconds: remainingSeconds(deadline, now),
+    saved_answers: [],
+    attempt_number: previous.length + 1,
+    attempts_remaining: quiz.max_attempts ? quiz.max_attempts - previous.length - 1 : null,
+  });
+});
 
-  for (const ans of submittedAnswers as Array<{ question_id: string; answer: string }>) {
-    const q = questionMap.get(ans.question_id);
-    if (!q) continue;
+app.put(
+  "/api/quizzes/:id/attempts/:attemptId/answers",
+  authMiddleware,
+  roleMiddleware("student"),
+  async (req: AuthRequest, res) => {
+    const quizId = param(req, "id");
+    const attemptId = param(req, "attemptId");
 
-    totalMarks += q.marks;
-    let isCorrect = false;
-    let marksAwarded = 0;
-    let feedback: string | null = null;
-
-    if (q.question_type === "mcq" || q.question_type === "true_false") {
-      isCorrect = ans.answer.trim().toLowerCase() === q.correct_answer.trim().toLowerCase();
-      marksAwarded = isCorrect ? q.marks : 0;
-      feedback = isCorrect ? "Correct!" : `Incorrect. The correct answer is: ${q.correct_answer}`;
-    } else if (q.question_type === "fill_in_blank") {
-      const opts = q.options as { acceptable?: string[] } | null;
-      const acceptable = (opts?.acceptable || [q.correct_answer]).map((s: string) => s.trim().toLowerCase());
-      const studentAnswer = ans.answer.trim().toLowerCase();
-      isCorrect = acceptable.includes(studentAnswer);
-      marksAwarded = isCorrect ? q.marks : 0;
-      feedback = isCorrect ? "Correct!" : `Incorrect. Acceptable answers: ${acceptable.join(", ")}`;
-    } else if (q.question_type === "matching") {
-      try {
-        const studentPairs = JSON.parse(ans.answer);
-        const correctPairs = JSON.parse(q.correct_answer);
-        let matchCount = 0;
-        for (const cp of correctPairs) {
-          const match = studentPairs.find(
-            (sp: { left: string; right: string }) =>
-              sp.left?.trim().toLowerCase() === cp.left?.trim().toLowerCase() &&
-              sp.right?.trim().toLowerCase() === cp.right?.trim().toLowerCase()
-          );
-          if (match) matchCount++;
-        }
-        isCorrect = matchCount === correctPairs.length;
-        const ratio = correctPairs.length > 0 ? matchCount / correctPairs.length : 0;
-        marksAwarded = Math.round(q.marks * ratio);
-        feedback = isCorrect
-          ? "Correct! All pairs matched."
-          : `${matchCount}/${correctPairs.length} pairs correct.`;
-      } catch {
-        feedback = "Invalid answer format for matching question.";
-      }
-    } else if (q.question_type === "ordering") {
-      try {
-        const studentOrder = JSON.parse(ans.answer);
-        const correctOrder = JSON.parse(q.correct_answer);
-        isCorrect =
-          Array.isArray(studentOrder) &&
-          Array.isArray(correctOrder) &&
-          studentOrder.length === correctOrder.length &&
-          studentOrder.every((v: number, i: number) => v === correctOrder[i]);
-        marksAwarded = isCorrect ? q.marks : 0;
-        feedback = isCorrect ? "Correct order!" : "Incorrect order.";
-      } catch {
-        feedback = "Invalid answer format for ordering question.";
-      }
-    } else {
-      // Short answer - basic evaluation (AI agent can provide better evaluation)
-      const studentLower = ans.answer.trim().toLowerCase();
-      const correctLower = q.correct_answer.trim().toLowerCase();
-      if (studentLower === correctLower) {
-        isCorrect = true;
-        marksAwarded = q.marks;
-        feedback = "Correct!";
-      } else if (
-        correctLower.split(" ").filter((w) => w.length > 3).some((word) => studentLower.includes(word))
-      ) {
-        marksAwarded = Math.ceil(q.marks * 0.5);
-        feedback = `Partial credit. Expected: ${q.correct_answer}`;
-      } else {
-        feedback = `Incorrect. Expected: ${q.correct_answer}`;
-      }
+    // Accept either a batch ({ answers: [...] }) or a single { question_id, answer }
+    const answers = req.body.answers !== undefined ? req.body.answers : [req.body];
+    if (!isAnswerList(answers) || answers.length === 0) {
+      res.status(400).json({ error: "answers must be a non-empty array of { question_id, answer }" });
+      return;
     }
 
-    totalScore += marksAwarded;
-    answerRecords.push({
-      attempt_id,
-      question_id: ans.question_id,
-      answer_text: ans.answer,
-      is_correct: isCorrect,
-      marks_awarded: marksAwarded,
-      ai_feedback: feedback,
-    });
-  }
-
-  const percentage = totalMarks > 0 ? Math.round((totalScore / totalMarks) * 100 * 100) / 100 : 0;
-
-  const submittedAt = new Date();
-
-  await db.transaction(async (tx) => {
-    if (answerRecords.length > 0) {
-      await tx.insert(studentAnswers).values(answerRecords);
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.id, attemptId),
+          eq(quizAttempts.quiz_id, quizId),
+          eq(quizAttempts.student_id, req.user!.userId)
+        )
+      )
+      .limit(1);
+    if (!attempt) {
+      res.status(404).json({ error: "Attempt not found" });
+      return;
+    }
+    if (attempt.status !== "in_progress") {
+      res.status(400).json({ error: "Attempt already submitted" });
+      return;
     }
-    await tx
-      .update(quizAttempts)
-      .set({
-        submitted_at: submittedAt,
-        score: totalScore,
-        total_marks: totalMarks,
-        percentage: String(percentage),
-        status: "evaluated",
-      })
-      .where(eq(quizAttempts.id, attempt_id));
-  });
 
-  // ── Gamification: XP, badges, streaks, leaderboard ──
-  let xpEarned = 0;
-  const newBadges: string[] = [];
+    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
+    const deadline = quiz ? attemptDeadline(attempt, quiz) : null;
+    if (isPastDeadline(deadline)) {
+      await expireAttempt(attemptId, deadline!);
+      res.status(400).json({ error: "Time limit exceeded; the attempt was auto-submitted", auto_submitted: true });
+      return;
+    }
 
-  // Ensure student profile exists
-  let [profile] = await db
-    .select()
-    .from(studentProfiles)
-    .where(eq(studentProfiles.user_id, req.user!.userId))
-    .limit(1);
+    const qs = await db.select().from(questions).where(eq(questions.quiz_id, quizId));
+    const saved = await saveAttemptAnswers(attemptId, new Map(qs.map((q) => [q.id, q])), answers);
 
-  if (!profile) {
-    await db.insert(studentProfiles).values({ user_id: req.user!.userId });
-    [profile] = await db
-      .select()
-      .from(studentProfiles)
-      .where(eq(studentProfiles.user_id, req.user!.userId))
-      .limit(1);
+    res.json({
+      attempt_id: attemptId,
+      saved,
+      saved_at: new Date().toISOString(),
+      remaining_seconds: remainingSeconds(deadline),
+    });
   }
+);
 
-  // Base XP
-  xpEarned += 50; // Quiz completion
-  xpEarned += answerRecords.filter((a) => a.is_correct).length * 10; // Per correct answer
+app.post("/api/quizzes/:id/submit", authMiddleware, roleMiddleware("student"), async (req: AuthRequest, res) => {
+  const quizId = param(req, "id");
+  const { attempt_id, answers: submittedAnswers } = req.body;
 
-  // Perfect score bonus
-  if (percentage === 100) {
-    xpEarned += 100;
+  if (!attempt_id) {
+    res.status(400).json({ error: "attempt_id is required" });
+    return;
+  }
+  if (submittedAnswers !== undefined && !isAnswerList(submittedAnswers)) {
+    res.status(400).json({ error: "answers must be an array of { question_id, answer }" });
+    return;
   }
 
-  // First attempt bonus
-  const [priorAttempts] = await db
-    .select({ value: count() })
+  const [attempt] = await db
+    .select()
     .from(quizAttempts)
     .where(
       and(
+        eq(quizAttempts.id, attempt_id),
         eq(quizAttempts.quiz_id, quizId),
-        eq(quizAttempts.student_id, req.user!.userId),
-        eq(quizAttempts.status, "evaluated")
+        eq(quizAttempts.student_id, req.user!.userId)
       )
-    );
-  if (Number(priorAttempts?.value ?? 0) <= 1) {
-    xpEarned += 20;
-  }
-
-  // Speed bonus
-  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
-  if (quiz?.time_limit_minutes) {
-    const timeTaken = (submittedAt.getTime() - attempt.started_at.getTime()) / 60000;
-    if (timeTaken < quiz.time_limit_minutes * 0.5) {
-      xpEarned += 30;
-    }
-  }
-
-  // Streak logic
-  const today = submittedAt.toISOString().slice(0, 10);
-  let newStreak = profile.current_streak;
-  if (profile.last_quiz_date) {
-    const lastDate = typeof profile.last_quiz_date === "string"
-      ? profile.last_quiz_date
-      : profile.last_quiz_date;
-    const lastMs = new Date(lastDate).getTime();
-    const todayMs = new Date(today).getTime();
-    const diffDays = Math.floor((todayMs - lastMs) / 86400000);
-    if (diffDays === 1) {
-      newStreak += 1;
-    } else if (diffDays > 1) {
-      newStreak = 1;
-    }
-    // Same day: no streak change
-  } else {
-    newStreak = 1;
-  }
-
-  // Streak bonus
-  if (newStreak >= 3) {
-    xpEarned += 25;
-  }
-
-  const longestStreak = Math.max(profile.longest_streak, newStreak);
-  const newXpTotal = profile.xp_total + xpEarned;
-  const newLevel = calculateLevel(newXpTotal);
-  const newQuizzesCompleted = profile.quizzes_completed + 1;
-  const newPerfectScores = percentage === 100 ? profile.perfect_scores + 1 : profile.perfect_scores;
+    )
+    .limit(1);
 
-  // Badge checks
-  const currentBadges = new Set(profile.badges || []);
-  if (!currentBadges.has("first_steps")) {
-    newBadges.push("first_steps");
-    currentBadges.add("first_steps");
-  }
-  if (newStreak >= 3 && !currentBadges.has("on_fire")) {
-    newBadges.push("on_fire");
-    currentBadges.add("on_fire");
+  if (!attempt) {
+    res.status(404).json({ error: "Attempt not found" });
+    return;
   }
-  if (newStreak >= 7 && !currentBadges.has("week_warrior")) {
-    newBadges.push("week_warrior");
-    currentBadges.add("week_warrior");
+  if (attempt.status !== "in_progress") {
+    res.status(400).json({ error: "Attempt already submitted" });
+    return;
   }
-  if (percentage === 100 && !currentBadges.has("perfect_score")) {
-    newBadges.push("perfect_score");
-    currentBadges.add("perfect_score");
+
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
+  const deadline = quiz ? attemptDeadline(attempt, quiz) : null;
+  if (isPastDeadline(deadline)) {
+    const expired = await expireAttempt(attempt_id, deadline!);
+    if (!expired) {
+      res.status(400).json({ error: "Attempt already submitted" });
+      return;
+    }
+    res.status(400).json({
+      error: "Time limit exceeded; the attempt was auto-submitted with the answers saved before the deadline",
+      attempt_id,
+      score: expired.score,
+      total_marks: expired.totalMarks,
+      percentage: expired.percentage,
+      status: "evaluated",
+      auto_submitted: true,
+    });
+    return;
   }
-  if (newQuizzesCompleted >= 10 && !currentBadges.has("quiz_master")) {
-    newBadges.push("quiz_master");
-    currentBadges.add("quiz_master");
+
+  // Get quiz questions
+  const qs = await db.select().from(questions).where(eq(questions.quiz_id, quizId));
+  const questionMap = new Map(qs.map((q) => [q.id, q]));
+
+  // Answers sent with the submission overwrite anything autosaved for the same question
+  if (Array.isArray(submittedAnswers) && submittedAnswers.length > 0) {
+    await saveAttemptAnswers(attempt_id, questionMap, submittedAnswers);
   }
-  if (quiz?.time_limit_minutes && !currentBadges.has("speed_demon")) {
-    const timeTaken = (submittedAt.getTime() - attempt.started_at.getTime()) / 60000;
-    if (timeTaken < quiz.time_limit_minutes * 0.5) {
-      newBadges.push("speed_demon");
-      currentBadges.add("speed_demon");
-    }
+
+  // Grade from the saved set so autosaved answers count even if the client lost them
+  const saved = await db.select().from(studentAnswers).where(eq(studentAnswers.attempt_id, attempt_id));
+
+  let totalScore = 0;
+  const totalMarks = qs.reduce((sum, q) => sum + q.marks, 0);
+
+  const answerRecords: Array<{
+    id: number;
+    question_id: string;
+    answer_text: string;
+    is_correct: boolean;
+    marks_awarded: number;
+    ai_feedback: string | null;
+    rubric_scores: CriterionScore[] | null;
+  }> = [];
+
+  for (const ans of saved) {
+    const q = questionMap.get(ans.question_id);
+    if (!q) continue;
+
+    const { isCorrect, marksAwarded, feedback, criteria } = gradeAnswer(q, ans.answer_text ?? "");
+
+    totalScore += marksAwarded;
+    answerRecords.push({
+      id: ans.id,
+      question_id: ans.question_id,
+      answer_text: ans.answer_text ?? "",
+      is_correct: isCorrect,
+      marks_awarded: marksAwarded,
+      ai_feedback: feedback,
+      rubric_scores: criteria ?? null,
+    });
   }
-  // Comeback kid check
-  if (percentage >= 80 && !currentBadges.has("comeback_kid")) {
-    const prevAttempts = await db
-      .select()
-      .from(quizAttempts)
-      .where(
-        and(
-          eq(quizAttempts.student_id, req.user!.userId),
-          eq(quizAttempts.status, "evaluated")
-        )
-      );
-    const hadLowScore = prevAttempts.some(
-      (a) => a.id !== attempt_id && (parseDecimal(a.percentage) ?? 0) < 40
-    );
-    if (hadLowScore) {
-      newBadges.push("comeback_kid");
-      currentBadges.add("comeback_kid");
+
+  const percentage = totalMarks > 0 ? Math.round((totalScore / totalMarks) * 100 * 100) / 100 : 0;
+
+  const submittedAt = new Date();
+
+  const submitted = await db.transaction(async (tx) => {
+    // Only an attempt still in progress is closed; the expiry sweep may have got there first
+    const [closed] = await tx
+      .update(quizAttempts)
+      .set({
+        submitted_at: submittedAt,
+        score: totalScore,
+        total_marks: totalMarks,
+        percentage: String(percentage),
+        status: "evaluated",
+      })
+      .where(and(eq(quizAttempts.id, attempt_id), eq(quizAttempts.status, "in_progress")))
+      .returning({ id: quizAttempts.id });
+    if (!closed) return false;
+    for (const a of answerRecords) {
+      await tx
+        .update(studentAnswers)
+        .set({
+          is_correct: a.is_correct,
+          marks_awarded: a.marks_awarded,
+          ai_feedback: a.ai_feedback,
+          rubric_scores: a.rubric_scores,
+          graded_by: "auto",
+        })
+        .where(eq(studentAnswers.id, a.id));
     }
+    return true;
+  });
+  if (!submitted) {
+    res.status(400).json({ error: "Attempt already submitted" });
+    return;
   }
 
-  const leveledUp = newLevel > profile.level;
+  // Short answers get a second pass from the agent once the response is out
+  const needsAiEvaluation =
+    AI_AUTO_EVALUATE && answerRecords.some((a) => questionMap.get(a.question_id)?.question_type === "short_answer");
+  if (needsAiEvaluation) {
+    await db.update(quizAttempts).set({ ai_evaluation_status: "pending" }).where(eq(quizAttempts.id, attempt_id));
+    scheduleAiEvaluation(attempt_id);
+  }
 
-  // Update profile
-  await db
-    .update(studentProfiles)
-    .set({
-      xp_total: newXpTotal,
-      level: newLevel,
-      current_streak: newStreak,
-      longest_streak: longestStreak,
-      last_quiz_date: today,
-      badges: Array.from(currentBadges),
-      quizzes_completed: newQuizzesCompleted,
-      perfect_scores: newPerfectScores,
-    })
-    .where(eq(studentProfiles.user_id, req.user!.userId));
+  // ── Gamification: XP, badges, streaks, leaderboard ──
+  const rewards = await rewardEvaluatedAttempt(req.user!.userId, quiz, {
+    id: attempt_id,
+    quiz_id: quizId,
+    started_at: attempt.started_at,
+    submitted_at: submittedAt,
+    percentage,
+    correct_count: answerRecords.filter((a) => a.is_correct).length,
+  });
 
-  // Update leaderboard
-  await updateLeaderboard(req.user!.userId, xpEarned);
+  // Point missed questions back to the material page they came from
+  const sources = await loadQuestionSources(qs);
 
   res.json({
     attempt_id,
@@ -1251,21 +4181,21 @@ app.post("/api/quizzes/:id/submit", authMiddleware, roleMiddleware("student"), a
     total_marks: totalMarks,
     percentage,
     status: "evaluated",
+    ai_evaluation_status: needsAiEvaluation ? "pending" : null,
+    counted_result: {
+      scoring_policy: rewards.policy,
+      score: rewards.counted.score,
+      percentage: rewards.counted.percentage,
+      attempts: rewards.attempts,
+    },
     answers: answerRecords.map((a) => ({
       question_id: a.question_id,
       is_correct: a.is_correct,
       marks_awarded: a.marks_awarded,
       feedback: a.ai_feedback,
+      review_source: a.is_correct ? null : (sources.get(a.question_id) ?? null),
     })),
-    gamification: {
-      xp_earned: xpEarned,
-      xp_total: newXpTotal,
-      level: newLevel,
-      leveled_up: leveledUp,
-      streak: newStreak,
-      new_badges: newBadges,
-      badges_total: currentBadges.size,
-    },
+    gamification: rewards.gamification,
   });
 });
 
@@ -1289,6 +4219,26 @@ app.get("/api/quizzes/:id/results", authMiddleware, async (req: AuthRequest, res
 
   const attemptRows = await attemptsQuery;
 
+  // Flag which attempts the quiz's attempt policy counts for each student
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
+  const counted = countedResultsByStudent(
+    attemptRows
+      .filter((a) => a.status === "evaluated")
+      .map((a) => ({
+        id: a.id,
+        student_id: a.student_id,
+        score: a.score ?? 0,
+        total_marks: a.total_marks,
+        percentage: parseDecimal(a.percentage) ?? 0,
+        submitted_at: a.submitted_at,
+      })),
+    (quiz?.scoring_policy ?? "best") as ScoringPolicy
+  );
+
+  const sources = await loadQuestionSources(
+    await db.select().from(questions).where(eq(questions.quiz_id, quizId))
+  );
+
   const results = await Promise.all(
     attemptRows.map(async (a) => {
       const [student] = await db.select().from(users).where(eq(users.id, a.student_id)).limit(1);
@@ -1305,14 +4255,22 @@ app.get("/api/quizzes/:id/results", authMiddleware, async (req: AuthRequest, res
         total_marks: a.total_marks,
         percentage: parseDecimal(a.percentage),
         status: a.status,
+        auto_submitted: a.auto_submitted,
+        ai_evaluation_status: a.ai_evaluation_status,
         started_at: a.started_at?.toISOString(),
         submitted_at: a.submitted_at?.toISOString(),
+        scoring_policy: quiz?.scoring_policy ?? "best",
+        counts_toward_result: counted.get(a.student_id)?.attempt_ids.includes(a.id) ?? false,
+        counted_percentage: counted.get(a.student_id)?.percentage ?? null,
         answers: answers.map((ans) => ({
           question_id: ans.question_id,
           answer_text: ans.answer_text,
           is_correct: ans.is_correct,
           marks_awarded: ans.marks_awarded,
           ai_feedback: ans.ai_feedback,
+          rubric_scores: ans.rubric_scores,
+          graded_by: ans.graded_by,
+          review_source: ans.is_correct ? null : (sources.get(ans.question_id) ?? null),
         })),
       };
     })
@@ -1321,6 +4279,189 @@ app.get("/api/quizzes/:id/results", authMiddleware, async (req: AuthRequest, res
   res.json(results);
 });
 
+// ========================================================================
+// GRADING ROUTES
+// ========================================================================
+
+/** AI grades below this confidence are sent to the teacher's review queue. */
+const AI_REVIEW_CONFIDENCE = 0.7;
+
+app.get("/api/grading/queue", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const quizId = req.query.quiz_id as string | undefined;
+
+  const conditions = [
+    eq(quizAttempts.status, "evaluated"),
+    sql`${studentAnswers.graded_by} <> 'teacher'`,
+    sql`(
+      (${questions.question_type} = 'short_answer' and ${studentAnswers.graded_by} = 'auto')
+      or (${studentAnswers.graded_by} = 'ai'
+        and (${studentAnswers.ai_confidence} is null or ${studentAnswers.ai_confidence} < ${AI_REVIEW_CONFIDENCE}))
+    )`,
+  ];
+  if (quizId) conditions.push(eq(quizzes.id, quizId));
+  if (req.user!.role !== "admin") conditions.push(eq(quizzes.teacher_id, req.user!.userId));
+
+  const rows = await db
+    .select({ answer: studentAnswers, question: questions, attempt: quizAttempts, quiz: quizzes, student: users })
+    .from(studentAnswers)
+    .innerJoin(questions, eq(studentAnswers.question_id, questions.id))
+    .innerJoin(quizAttempts, eq(studentAnswers.attempt_id, quizAttempts.id))
+    .innerJoin(quizzes, eq(quizAttempts.quiz_id, quizzes.id))
+    .innerJoin(users, eq(quizAttempts.student_id, users.id))
+    .where(and(...conditions))
+    .orderBy(quizAttempts.submitted_at)
+    .limit(200);
+
+  res.json(
+    rows.map(({ answer, question, attempt, quiz, student }) => ({
+      answer_id: answer.id,
+      attempt_id: attempt.id,
+      quiz_id: quiz.id,
+      quiz_title: quiz.title,
+      student_id: student.id,
+      student_name: student.name,
+      question_id: question.id,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      correct_answer: question.correct_answer,
+      max_marks: question.marks,
+      rubric: question.rubric,
+      answer_text: answer.answer_text,
+      marks_awarded: answer.marks_awarded,
+      ai_feedback: answer.ai_feedback,
+      rubric_scores: answer.rubric_scores,
+      graded_by: answer.graded_by,
+      ai_confidence: parseDecimal(answer.ai_confidence),
+      review_reason: answer.graded_by === "ai" ? "low_confidence_ai_grade" : "short_answer",
+      submitted_at: attempt.submitted_at?.toISOString(),
+    }))
+  );
+});
+
+app.put("/api/answers/:id/grade", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const answerId = Number(param(req, "id"));
+  const { marks_awarded, ai_feedback, reason } = req.body;
+
+  if (!Number.isInteger(answerId)) {
+    res.status(400).json({ error: "Invalid answer id" });
+    return;
+  }
+  if (!Number.isInteger(marks_awarded) || marks_awarded < 0) {
+    res.status(400).json({ error: "marks_awarded must be a non-negative integer" });
+    return;
+  }
+  if (typeof reason !== "string" || !reason.trim()) {
+    res.status(400).json({ error: "reason is required" });
+    return;
+  }
+
+  const [row] = await db
+    .select({ answer: studentAnswers, question: questions, attempt: quizAttempts, quiz: quizzes })
+    .from(studentAnswers)
+    .innerJoin(questions, eq(studentAnswers.question_id, questions.id))
+    .innerJoin(quizAttempts, eq(studentAnswers.attempt_id, quizAttempts.id))
+    .innerJoin(quizzes, eq(quizAttempts.quiz_id, quizzes.id))
+    .where(eq(studentAnswers.id, answerId))
+    .limit(1);
+
+  if (!row) {
+    res.status(404).json({ error: "Answer not found" });
+    return;
+  }
+  if (!canManageQuiz(req.user!, row.quiz)) {
+    res.status(403).json({ error: "You can only grade answers to your own quizzes" });
+    return;
+  }
+  if (row.attempt.status !== "evaluated") {
+    res.status(400).json({ error: "Attempt has not been submitted yet" });
+    return;
+  }
+  if (marks_awarded > row.question.marks) {
+    res.status(400).json({ error: `marks_awarded cannot exceed the question's ${row.question.marks} mark(s)` });
+    return;
+  }
+
+  const newFeedback = ai_feedback !== undefined ? ai_feedback || null : row.answer.ai_feedback;
+
+  await db.transaction(async (tx) => {
+    await tx.insert(gradeAudits).values({
+      answer_id: answerId,
+      attempt_id: row.attempt.id,
+      changed_by: req.user!.userId,
+      previous_marks: row.answer.marks_awarded,
+      new_marks: marks_awarded,
+      previous_feedback: row.answer.ai_feedback,
+      new_feedback: newFeedback,
+      previous_graded_by: row.answer.graded_by,
+      reason: reason.trim(),
+    });
+    await tx
+      .update(studentAnswers)
+      .set({
+        marks_awarded,
+        is_correct: marks_awarded === row.question.marks,
+        ai_feedback: newFeedback,
+        graded_by: "teacher",
+      })
+      .where(eq(studentAnswers.id, answerId));
+  });
+
+  const score = await recomputeAttemptScore(row.attempt.id);
+
+  res.json({
+    answer_id: answerId,
+    attempt_id: row.attempt.id,
+    marks_awarded,
+    ai_feedback: newFeedback,
+    graded_by: "teacher",
+    attempt_score: score.score,
+    attempt_total_marks: score.totalMarks,
+    attempt_percentage: score.percentage,
+  });
+});
+
+app.get("/api/attempts/:id/grade-audit", authMiddleware, async (req: AuthRequest, res) => {
+  const attemptId = param(req, "id");
+  const [attempt] = await db.select().from(quizAttempts).where(eq(quizAttempts.id, attemptId)).limit(1);
+  if (!attempt) {
+    res.status(404).json({ error: "Attempt not found" });
+    return;
+  }
+
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, attempt.quiz_id)).limit(1);
+  const allowed =
+    req.user!.role === "student" ? attempt.student_id === req.user!.userId : !!quiz && canManageQuiz(req.user!, quiz);
+  if (!allowed) {
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  const rows = await db
+    .select({ audit: gradeAudits, changer: users, questionId: studentAnswers.question_id })
+    .from(gradeAudits)
+    .innerJoin(studentAnswers, eq(gradeAudits.answer_id, studentAnswers.id))
+    .leftJoin(users, eq(gradeAudits.changed_by, users.id))
+    .where(eq(gradeAudits.attempt_id, attemptId))
+    .orderBy(desc(gradeAudits.created_at));
+
+  res.json(
+    rows.map(({ audit, changer, questionId }) => ({
+      id: audit.id,
+      answer_id: audit.answer_id,
+      question_id: questionId,
+      changed_by: audit.changed_by,
+      changed_by_name: changer?.name ?? "Unknown",
+      previous_marks: audit.previous_marks,
+      new_marks: audit.new_marks,
+      previous_feedback: audit.previous_feedback,
+      new_feedback: audit.new_feedback,
+      previous_graded_by: audit.previous_graded_by,
+      reason: audit.reason,
+      created_at: audit.created_at?.toISOString(),
+    }))
+  );
+});
+
 // ========================================================================
 // GAMIFICATION ROUTES
 // ========================================================================
@@ -1433,38 +4574,79 @@ app.post(
       return;
     }
 
-    let joinCode: string;
-    do {
-      joinCode = generateJoinCode();
-    } while (liveSessions.has(joinCode));
-
-    const session: LiveSession = {
-      quizId,
-      teacherId: req.user!.userId,
-      status: "waiting",
-      currentQuestionIndex: -1,
-      questionStartedAt: 0,
-      questionTimeLimit: (quiz.time_limit_minutes || 30) * 60 / qs.length,
-      participants: new Map(),
-      sseClients: [],
-      questions: qs.map((q) => ({
-        id: q.id,
-        question_text: q.question_text,
-        question_type: q.question_type,
-        options: q.options,
-        correct_answer: q.correct_answer,
-        marks: q.marks,
-        difficulty: q.difficulty,
-      })),
-    };
+    const timeLimitMs = Math.round(((quiz.time_limit_minutes || 30) * 60 * 1000) / qs.length);
+
+    const autoAdvance = req.body?.auto_advance_seconds ?? null;
+    if (autoAdvance !== null && (!Number.isInteger(autoAdvance) || autoAdvance < 1 || autoAdvance > 300)) {
+      res.status(400).json({ error: "auto_advance_seconds must be a whole number from 1 to 300, or null" });
+      return;
+    }
 
-    liveSessions.set(joinCode, session);
+    // Team mode: `teams` is a number of teams or their names
+    const { teams, team_scoring: teamScoring = "average", team_assignment: teamAssignment = "choose" } = req.body ?? {};
+    const teamNames = teams === undefined || teams === null ? null : parseLiveTeamNames(teams);
+    if (teams !== undefined && teams !== null && !teamNames) {
+      res.status(400).json({
+        error: `teams must be a number from 2 to ${MAX_LIVE_TEAMS}, or that many distinct names of up to 64 characters`,
+      });
+      return;
+    }
+    if (teamNames && !isTeamScoring(teamScoring)) {
+      res.status(400).json({ error: 'team_scoring must be "average" or "sum"' });
+      return;
+    }
+    if (teamNames && teamAssignment !== "auto" && teamAssignment !== "choose") {
+      res.status(400).json({ error: 'team_assignment must be "auto" or "choose"' });
+      return;
+    }
+
+    const { session, sessionTeams } = await db.transaction(async (tx) => {
+      // Join codes are unique among running sessions; draw again on the rare collision
+      let row: typeof liveSessions.$inferSelect | undefined;
+      while (!row) {
+        [row] = await tx
+          .insert(liveSessions)
+          .values({
+            id: genId(),
+            join_code: generateJoinCode(),
+            quiz_id: quizId,
+            teacher_id: req.user!.userId,
+            question_time_limit_ms: timeLimitMs,
+            auto_advance_seconds: autoAdvance,
+            team_scoring: teamNames ? teamScoring : null,
+            team_assignment: teamNames ? teamAssignment : null,
+            questions: qs.map((q) => ({
+              id: q.id,
+              question_text: q.question_text,
+              question_type: q.question_type,
+              options: q.options,
+              correct_answer: q.correct_answer,
+              marks: q.marks,
+              difficulty: q.difficulty,
+              rubric: q.rubric,
+            })),
+          })
+          .onConflictDoNothing()
+          .returning();
+      }
+      const created = teamNames
+        ? await tx
+            .insert(liveTeams)
+            .values(teamNames.map((name) => ({ session_id: row!.id, name })))
+            .returning({ id: liveTeams.id, name: liveTeams.name })
+        : [];
+      return { session: row, sessionTeams: created };
+    });
 
     res.json({
-      join_code: joinCode,
+      join_code: session.join_code,
       quiz_title: quiz.title,
       question_count: qs.length,
-      time_per_question: Math.round(session.questionTimeLimit),
+      time_per_question: Math.round(timeLimitMs / 1000),
+      auto_advance_seconds: autoAdvance,
+      team_scoring: session.team_scoring,
+      team_assignment: session.team_assignment,
+      teams: sessionTeams,
     });
   }
 );
@@ -1478,227 +4660,397 @@ app.get("/api/live/:code/stream", (req: AuthRequest, res: express.Response, next
   authMiddleware(req, res, next);
 }, async (req: AuthRequest, res) => {
   const code = param(req, "code");
-  const session = liveSessions.get(code);
+  const session = await loadLiveSession(code);
   if (!session) { res.status(404).json({ error: "Session not found" }); return; }
 
+  // EventSource sends Last-Event-ID when it reconnects; a reloaded page can pass ?last_event_id=
+  const lastEventId = Number(req.headers["last-event-id"] ?? req.query.last_event_id);
+  const resumeAfter = Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : session.lastEventSeq;
+
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
     Connection: "keep-alive",
   });
-  res.write(`event: connected\ndata: ${JSON.stringify({ status: session.status })}\n\n`);
-
-  session.sseClients.push(res);
+  res.write(
+    `event: connected\ndata: ${JSON.stringify({ status: session.status, current_question: session.currentQuestionIndex })}\n\n`
+  );
 
-  req.on("close", () => {
-    session.sseClients = session.sseClients.filter((c) => c !== res);
+  const stop = followLiveEvents(session.id, resumeAfter, (e) => {
+    res.write(formatLiveEvent(e));
   });
+
+  req.on("close", stop);
 });
 
 app.post("/api/live/:code/join", authMiddleware, async (req: AuthRequest, res) => {
   const code = param(req, "code");
-  const session = liveSessions.get(code);
+  const session = await loadLiveSession(code);
   if (!session) { res.status(404).json({ error: "Session not found" }); return; }
   if (session.status === "ended") {
     res.status(400).json({ error: "Session has ended" });
     return;
   }
 
+  // Team mode: students pick a team (by id or name) when the host allows it; otherwise they are balanced
+  const teams = session.teamScoring
+    ? await db
+        .select({ id: liveTeams.id, name: liveTeams.name })
+        .from(liveTeams)
+        .where(eq(liveTeams.session_id, session.id))
+        .orderBy(liveTeams.id)
+    : [];
+  const requested = req.body?.team;
+  let chosenTeam: (typeof teams)[number] | undefined;
+  if (requested !== undefined && requested !== null && requested !== "") {
+    if (!session.teamScoring) {
+      res.status(400).json({ error: "This session is not played in teams" });
+      return;
+    }
+    if (session.teamAssignment === "auto") {
+      res.status(400).json({ error: "Teams are assigned automatically in this session" });
+      return;
+    }
+    chosenTeam =
+      typeof requested === "number"
+        ? teams.find((t) => t.id === requested)
+        : teams.find((t) => t.name.toLowerCase() === String(requested).trim().toLowerCase());
+    if (!chosenTeam) {
+      res.status(400).json({ error: "Unknown team" });
+      return;
+    }
+  }
+
   const [user] = await db.select().from(users).where(eq(users.id, req.user!.userId)).limit(1);
 
-  if (!session.participants.has(req.user!.userId)) {
-    session.participants.set(req.user!.userId, {
-      userId: req.user!.userId,
-      name: user?.name ?? "Unknown",
-      score: 0,
-      answers: [],
-    });
-    broadcastSSE(session, "participant_joined", {
+  const joined = await db.transaction(async (tx) => {
+    let teamId = chosenTeam?.id ?? null;
+    if (teams.length > 0 && !chosenTeam) {
+      // Lock the session so simultaneous joins see each other and spread evenly
+      await tx.select({ id: liveSessions.id }).from(liveSessions).where(eq(liveSessions.id, session.id)).for("update");
+      const [smallest] = await tx
+        .select({ id: liveTeams.id })
+        .from(liveTeams)
+        .leftJoin(liveParticipants, eq(liveParticipants.team_id, liveTeams.id))
+        .where(eq(liveTeams.session_id, session.id))
+        .groupBy(liveTeams.id)
+        .orderBy(count(liveParticipants.id), liveTeams.id)
+        .limit(1);
+      teamId = smallest.id;
+    }
+    const [row] = await tx
+      .insert(liveParticipants)
+      .values({ session_id: session.id, user_id: req.user!.userId, name: user?.name ?? "Unknown", team_id: teamId })
+      .onConflictDoNothing()
+      .returning();
+    return row;
+  });
+  const participantCount = await liveParticipantCount(session.id);
+
+  // A student joining again keeps the team they first joined
+  const [me] = await db
+    .select({ team_id: liveParticipants.team_id })
+    .from(liveParticipants)
+    .where(and(eq(liveParticipants.session_id, session.id), eq(liveParticipants.user_id, req.user!.userId)))
+    .limit(1);
+  const myTeam = teams.find((t) => t.id === me?.team_id) ?? null;
+
+  if (joined) {
+    await broadcastSSE(session, "participant_joined", {
       user_id: req.user!.userId,
-      name: user?.name ?? "Unknown",
-      participant_count: session.participants.size,
+      name: joined.name,
+      participant_count: participantCount,
+      ...(session.teamScoring ? { team_id: myTeam?.id ?? null, team: myTeam?.name ?? null } : {}),
     });
   }
 
   res.json({
     status: session.status,
-    participant_count: session.participants.size,
+    participant_count: participantCount,
     question_count: session.questions.length,
+    ...(session.teamScoring ? { team: myTeam, team_scoring: session.teamScoring } : {}),
   });
 });
 
 app.post("/api/live/:code/next", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
-  const code = param(req, "code");
-  const session = liveSessions.get(code);
-  if (!session) { res.status(404).json({ error: "Session not found" }); return; }
-  if (session.teacherId !== req.user!.userId) {
-    res.status(403).json({ error: "Not the session host" });
+  const session = await loadHostedLiveSession(req, res);
+  if (!session) return;
+  if (session.status === "ended") {
+    res.status(400).json({ error: "Session has ended" });
+    return;
+  }
+  if (session.pausedAt !== null) {
+    res.status(400).json({ error: "The session is paused" });
     return;
   }
 
-  session.currentQuestionIndex++;
-  if (session.currentQuestionIndex >= session.questions.length) {
-    // Quiz is over
-    session.status = "ended";
-    const leaderboard = Array.from(session.participants.values())
-      .sort((a, b) => b.score - a.score)
-      .map((p, i) => ({ rank: i + 1, name: p.name, score: p.score }));
-    broadcastSSE(session, "quiz_ended", { leaderboard });
-
-    // Save attempts to database
-    for (const [userId, participant] of session.participants) {
-      const attemptId = genId();
-      const totalMarks = session.questions.reduce((s, q) => s + q.marks, 0);
-      const pct = totalMarks > 0 ? Math.round((participant.score / totalMarks) * 100 * 100) / 100 : 0;
-
-      await db.insert(quizAttempts).values({
-        id: attemptId,
-        quiz_id: session.quizId,
-        student_id: userId,
-        total_marks: totalMarks,
-        score: participant.score,
-        percentage: String(pct),
-        status: "evaluated",
-        submitted_at: new Date(),
-      });
-
-      for (const ans of participant.answers) {
-        const q = session.questions[ans.questionIndex];
-        if (q) {
-          await db.insert(studentAnswers).values({
-            attempt_id: attemptId,
-            question_id: q.id,
-            answer_text: ans.answer,
-            is_correct: ans.correct,
-            marks_awarded: ans.correct ? q.marks : 0,
-            ai_feedback: ans.correct ? "Correct!" : `Incorrect. The correct answer is: ${q.correct_answer}`,
-          });
-        }
-      }
+  // An open question closes into its reveal before the game moves on
+  if (session.status === "question") {
+    const results = await closeLiveQuestion(session);
+    if (!results) {
+      res.status(409).json({ error: "The session has already moved on" });
+      return;
     }
+    res.json({ status: "results", question_index: results.index, total_questions: results.total, ...results });
+    return;
+  }
+
+  // The host may give the next question its own time limit, in seconds
+  const timeLimit = req.body?.time_limit;
+  if (timeLimit !== undefined && (typeof timeLimit !== "number" || !(timeLimit >= 5 && timeLimit <= 3600))) {
+    res.status(400).json({ error: "time_limit must be between 5 and 3600 seconds" });
+    return;
+  }
+
+  const opened = await openNextLiveQuestion(session, timeLimit !== undefined ? timeLimit * 1000 : undefined);
+  if (!opened) {
+    res.status(409).json({ error: "The session has already moved on" });
+    return;
+  }
+  res.json(opened);
+});
+
+app.post("/api/live/:code/pause", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const session = await loadHostedLiveSession(req, res);
+  if (!session) return;
+  if (session.status !== "question" && session.status !== "results") {
+    res.status(400).json({ error: "Only a running question or reveal can be paused" });
+    return;
+  }
+  if (session.pausedAt !== null) {
+    res.status(400).json({ error: "The session is already paused" });
+    return;
+  }
+
+  const pausedAt = new Date();
+  if (!(await advanceLiveSession(session, { paused_at: pausedAt }))) {
+    res.status(409).json({ error: "The session has already moved on" });
+    return;
+  }
+  scheduleLiveTimer(session.id, null);
+
+  const remaining = session.phaseEndsAt !== null ? Math.max(session.phaseEndsAt - pausedAt.getTime(), 0) : null;
+  await broadcastSSE(session, "paused", { remaining: remaining !== null ? Math.round(remaining / 1000) : null });
+  res.json({ status: session.status, paused: true, remaining: remaining !== null ? Math.round(remaining / 1000) : null });
+});
 
-    res.json({ status: "ended", leaderboard });
+app.post("/api/live/:code/resume", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const session = await loadHostedLiveSession(req, res);
+  if (!session) return;
+  if (session.status === "ended" || session.pausedAt === null) {
+    res.status(400).json({ error: "The session is not paused" });
     return;
   }
 
-  session.status = "question";
-  session.questionStartedAt = Date.now();
-
-  const q = session.questions[session.currentQuestionIndex];
-  broadcastSSE(session, "question", {
-    index: session.currentQuestionIndex,
-    total: session.questions.length,
-    question_text: q.question_text,
-    question_type: q.question_type,
-    options: q.options,
-    marks: q.marks,
-    difficulty: q.difficulty,
-    time_limit: Math.round(session.questionTimeLimit),
+  // The clock picks up where it stopped: shift the question start and deadline by the pause
+  const pausedFor = Date.now() - session.pausedAt;
+  const endsAt = session.phaseEndsAt !== null ? new Date(session.phaseEndsAt + pausedFor) : null;
+  const resumed = await advanceLiveSession(session, {
+    paused_at: null,
+    phase_ends_at: endsAt,
+    question_started_at: session.questionStartedAt ? new Date(session.questionStartedAt + pausedFor) : null,
   });
+  if (!resumed) {
+    res.status(409).json({ error: "The session has already moved on" });
+    return;
+  }
+  scheduleLiveTimer(session.id, endsAt);
 
-  res.json({
-    status: "question",
-    question_index: session.currentQuestionIndex,
-    total_questions: session.questions.length,
-  });
+  const remaining = endsAt ? Math.round((endsAt.getTime() - Date.now()) / 1000) : null;
+  await broadcastSSE(session, "resumed", { remaining, ends_at: endsAt?.toISOString() ?? null });
+  res.json({ status: session.status, paused: false, remaining, ends_at: endsAt?.toISOString() ?? null });
 });
 
 app.post("/api/live/:code/answer", authMiddleware, async (req: AuthRequest, res) => {
   const code = param(req, "code");
-  const session = liveSessions.get(code);
+  const session = await loadLiveSession(code);
   if (!session) { res.status(404).json({ error: "Session not found" }); return; }
   if (session.status !== "question") {
     res.status(400).json({ error: "No active question" });
     return;
   }
-
-  const participant = session.participants.get(req.user!.userId);
-  if (!participant) { res.status(400).json({ error: "Not a participant" }); return; }
-
-  // Check if already answered this question
-  if (participant.answers.some((a) => a.questionIndex === session.currentQuestionIndex)) {
-    res.status(400).json({ error: "Already answered" });
+  if (session.pausedAt !== null) {
+    res.status(400).json({ error: "The session is paused" });
+    return;
+  }
+  if (session.phaseEndsAt !== null && Date.now() > session.phaseEndsAt + LIVE_ANSWER_GRACE_MS) {
+    res.status(400).json({ error: "Time is up for this question" });
     return;
   }
 
-  const { answer } = req.body;
+  const [participant] = await db
+    .select()
+    .from(liveParticipants)
+    .where(and(eq(liveParticipants.session_id, session.id), eq(liveParticipants.user_id, req.user!.userId)))
+    .limit(1);
+  if (!participant) { res.status(400).json({ error: "Not a participant" }); return; }
+
+  // Matching/ordering answers may arrive as raw arrays; graders expect their JSON form
+  const rawAnswer = req.body.answer;
+  const answer = typeof rawAnswer === "string" ? rawAnswer : rawAnswer == null ? "" : JSON.stringify(rawAnswer);
   const q = session.questions[session.currentQuestionIndex];
-  const isCorrect = answer?.trim().toLowerCase() === q.correct_answer.trim().toLowerCase();
-  const timeTaken = (Date.now() - session.questionStartedAt) / 1000;
+  const { isCorrect, marksAwarded, feedback, criteria } = gradeAnswer(q, answer);
+  const timeLimitMs = (session.phaseEndsAt ?? 0) - session.questionStartedAt;
+  const timeTakenMs = Math.min(Date.now() - session.questionStartedAt, timeLimitMs);
+  const { points, streak, multiplier } = scoreLiveAnswer({
+    isCorrect,
+    marksAwarded,
+    timeTakenMs,
+    timeLimitMs,
+    previousStreak: participant.streak,
+  });
 
-  if (isCorrect) {
-    participant.score += q.marks;
-  }
+  // The unique (session, student, question) index rejects a second answer, even one racing
+  // in through another instance
+  const totals = await db.transaction(async (tx) => {
+    // Hold the question open until the answer is in: a close that raced it waits, then counts it
+    const [current] = await tx
+      .select({
+        status: liveSessions.status,
+        index: liveSessions.current_question_index,
+        paused_at: liveSessions.paused_at,
+      })
+      .from(liveSessions)
+      .where(eq(liveSessions.id, session.id))
+      .for("share");
+    if (current?.status !== "question" || current.index !== session.currentQuestionIndex || current.paused_at) {
+      return "closed" as const;
+    }
 
-  participant.answers.push({
-    questionIndex: session.currentQuestionIndex,
-    answer: answer || "",
-    correct: isCorrect,
-    time: timeTaken,
+    const [recorded] = await tx
+      .insert(liveAnswers)
+      .values({
+        session_id: session.id,
+        user_id: participant.user_id,
+        question_index: session.currentQuestionIndex,
+        answer_text: answer,
+        is_correct: isCorrect,
+        marks_awarded: marksAwarded,
+        points,
+        streak,
+        ai_feedback: feedback,
+        rubric_scores: criteria ?? null,
+        time_taken_ms: timeTakenMs,
+      })
+      .onConflictDoNothing()
+      .returning({ id: liveAnswers.id });
+    if (!recorded) return null;
+    const [updated] = await tx
+      .update(liveParticipants)
+      .set({
+        score: sql`${liveParticipants.score} + ${marksAwarded}`,
+        points: sql`${liveParticipants.points} + ${points}`,
+        streak,
+      })
+      .where(eq(liveParticipants.id, participant.id))
+      .returning({ score: liveParticipants.score, points: liveParticipants.points });
+    return updated;
   });
+  if (totals === "closed") {
+    res.status(400).json({ error: "Time is up for this question" });
+    return;
+  }
+  if (!totals) {
+    res.status(400).json({ error: "Already answered" });
+    return;
+  }
 
   // Broadcast answer count
-  const answered = Array.from(session.participants.values()).filter(
-    (p) => p.answers.some((a) => a.questionIndex === session.currentQuestionIndex)
-  ).length;
+  const [{ answered }] = await db
+    .select({ answered: count() })
+    .from(liveAnswers)
+    .where(and(eq(liveAnswers.session_id, session.id), eq(liveAnswers.question_index, session.currentQuestionIndex)));
 
-  broadcastSSE(session, "answer_update", {
+  await broadcastSSE(session, "answer_update", {
     answered,
-    total: session.participants.size,
+    total: await liveParticipantCount(session.id),
+    ...(session.teamScoring ? { teams: await liveTeamAnswerCounts(session) } : {}),
   });
 
-  res.json({ correct: isCorrect, score: participant.score });
+  res.json({
+    correct: isCorrect,
+    marks_awarded: marksAwarded,
+    feedback,
+    score: totals.score,
+    points_awarded: points,
+    streak,
+    multiplier,
+    points: totals.points,
+  });
 });
 
 app.post("/api/live/:code/end", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
-  const code = param(req, "code");
-  const session = liveSessions.get(code);
-  if (!session) { res.status(404).json({ error: "Session not found" }); return; }
-
-  session.status = "ended";
-  const leaderboard = Array.from(session.participants.values())
-    .sort((a, b) => b.score - a.score)
-    .map((p, i) => ({ rank: i + 1, name: p.name, score: p.score }));
-  broadcastSSE(session, "quiz_ended", { leaderboard });
+  const session = await loadHostedLiveSession(req, res);
+  if (!session) return;
+  if (session.status === "ended") {
+    res.status(400).json({ error: "Session has ended" });
+    return;
+  }
 
-  // Clean up after a delay
-  setTimeout(() => liveSessions.delete(code), 60000);
+  const ended = await advanceLiveSession(session, { status: "ended", phase_ends_at: null, ended_at: new Date() });
+  if (!ended) {
+    res.status(409).json({ error: "The session has already moved on" });
+    return;
+  }
+  scheduleLiveTimer(session.id, null);
+  const standings = await liveStandings(session);
+  await broadcastSSE(session, "quiz_ended", standings);
+  await finalizeLiveSession(session);
 
-  res.json({ status: "ended", leaderboard });
+  res.json({ status: "ended", ...standings });
 });
 
 app.get("/api/live/:code/status", authMiddleware, async (req, res) => {
   const code = param(req, "code");
-  const session = liveSessions.get(code);
+  const session = await loadLiveSession(code);
   if (!session) { res.status(404).json({ error: "Session not found" }); return; }
 
-  const leaderboard = Array.from(session.participants.values())
-    .sort((a, b) => b.score - a.score)
-    .map((p, i) => ({ rank: i + 1, name: p.name, score: p.score, user_id: p.userId }));
+  const standings = await liveStandings(session);
 
   res.json({
     status: session.status,
     current_question: session.currentQuestionIndex,
     total_questions: session.questions.length,
-    participant_count: session.participants.size,
-    leaderboard,
+    paused: session.pausedAt !== null,
+    phase_ends_at: session.phaseEndsAt !== null ? new Date(session.phaseEndsAt).toISOString() : null,
+    team_scoring: session.teamScoring,
+    team_assignment: session.teamAssignment,
+    participant_count: standings.leaderboard.length,
+    ...standings,
   });
 });
 
+app.get("/api/live/:code/report", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const session = await loadLiveSession(param(req, "code"));
+  if (!session) { res.status(404).json({ error: "Session not found" }); return; }
+  if (req.user!.role !== "admin" && session.teacherId !== req.user!.userId) {
+    res.status(403).json({ error: "Not the session host" });
+    return;
+  }
+
+  const report = await liveSessionReport(session);
+  if (req.query.format === "csv") {
+    res.attachment(`live-session-${session.joinCode}-${report.started_at.slice(0, 10)}.csv`);
+    res.type("text/csv").send(liveSessionReportCsv(report));
+    return;
+  }
+  res.json(report);
+});
+
 // ========================================================================
 // DAILY CHALLENGE & CERTIFICATES
 // ========================================================================
 
-app.get("/api/daily-challenge", authMiddleware, async (_req, res) => {
+app.get("/api/daily-challenge", authMiddleware, async (req: AuthRequest, res) => {
   const today = new Date();
   const dayOfYear = Math.floor(
     (today.getTime() - new Date(today.getFullYear(), 0, 0).getTime()) / 86400000
   );
 
-  const publishedQuizzes = await db
-    .select()
-    .from(quizzes)
-    .where(eq(quizzes.status, "published"));
+  const publishedQuizzes =
+    req.user!.role === "student"
+      ? await assignedPublishedQuizzes(req.user!.userId)
+      : await db.select().from(quizzes).where(eq(quizzes.status, "published"));
 
   if (publishedQuizzes.length === 0) {
     res.json({ challenge: null });
@@ -1901,138 +5253,290 @@ app.get("/api/analytics/compare", authMiddleware, roleMiddleware("teacher", "adm
 // AI AGENT ROUTES
 // ========================================================================
 
+/** How many times generation is re-prompted after a malformed or invalid question set. */
+const GENERATION_MAX_ATTEMPTS = 3;
+const AGENT_TIMEOUT_MS = 120_000;
+
+/** Run one agent request and return its final text, or null if it timed out without one. */
+async function runAgentQuery(request: AgentRequest, timeoutMs = AGENT_TIMEOUT_MS): Promise<string | null> {
+  let timeoutHandle: ReturnType<typeof setTimeout>;
+  const timeoutPromise = new Promise<null>((resolve) => {
+    timeoutHandle = setTimeout(() => resolve(null), timeoutMs);
+  });
+
+  try {
+    const reply = await Promise.race([getAgentProvider().run(request), timeoutPromise]);
+    return reply?.text ?? null;
+  } finally {
+    clearTimeout(timeoutHandle!);
+  }
+}
+
 app.post("/api/agent/generate-quiz", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
-  const { topic_id, num_questions, question_types, difficulty } = req.body;
+  const { topic_id } = req.body;
+  const numQuestions = req.body.num_questions ?? 5;
+  const questionTypes: string[] = req.body.question_types ?? ["mcq"];
+  const difficulty = req.body.difficulty ?? "mixed";
+
   if (!topic_id) {
     res.status(400).json({ error: "topic_id is required" });
     return;
   }
+  if (!Number.isInteger(numQuestions) || numQuestions < 1 || numQuestions > 50) {
+    res.status(400).json({ error: "num_questions must be an integer between 1 and 50" });
+    return;
+  }
+  if (
+    !Array.isArray(questionTypes) ||
+    questionTypes.length === 0 ||
+    !questionTypes.every((t) => (QUESTION_TYPES as readonly string[]).includes(t))
+  ) {
+    res.status(400).json({ error: `question_types must be a non-empty subset of: ${QUESTION_TYPES.join(", ")}` });
+    return;
+  }
+  if (!["easy", "medium", "hard", "mixed"].includes(difficulty)) {
+    res.status(400).json({ error: "difficulty must be easy, medium, hard or mixed" });
+    return;
+  }
 
   const [topic] = await db.select().from(topics).where(eq(topics.id, topic_id)).limit(1);
   if (!topic) {
     res.status(404).json({ error: "Topic not found" });
     return;
   }
+  if (!(await canAccessTopicMaterials(req.user!, topic))) {
+    res.status(403).json({ error: "You do not have access to this topic's materials" });
+    return;
+  }
 
-  // Gather material text
-  const mats = await db.select().from(materials).where(eq(materials.topic_id, topic_id));
-  const materialText = mats
-    .filter((m) => m.extracted_text)
-    .map((m) => m.extracted_text)
-    .join("\n\n");
+  // Retrieve the material passages most relevant to the topic
+  const excerpts = await retrieveExcerpts(
+    topic_id,
+    [topic.title, topic.description, topic.subject].filter(Boolean).join(" "),
+    { limit: 12, maxChars: 8000 }
+  );
 
-  const prompt =
+  const basePrompt =
     `Generate a quiz for the topic "${topic.title}" (${topic.subject}, ${topic.grade_level || "General"}).\n` +
-    `Number of questions: ${num_questions || 5}\n` +
-    `Question types: ${(question_types || ["mcq"]).join(", ")}\n` +
-    `Difficulty: ${difficulty || "mixed"}\n` +
-    (materialText
-      ? `\nStudy Material Text:\n${materialText.slice(0, 5000)}\n`
+    `Number of questions: ${numQuestions}\n` +
+    `Question types: ${questionTypes.join(", ")}\n` +
+    `Difficulty: ${difficulty}\n` +
+    (excerpts.length > 0
+      ? `\nStudy Material Excerpts (each headed by its source):\n${formatExcerpts(excerpts)}\n`
       : "\nNo study material uploaded. Generate questions based on the topic title and subject.") +
-    `\nUse the generate_quiz tool to create the questions. Then return the generated questions as a JSON array.`;
+    `\nUse the generate_quiz tool to plan the questions, write every question in full, and check ` +
+    `them with the validate_quiz_questions tool` +
+    (excerpts.length > 0 ? ` (pass ${excerpts.map((_, i) => excerptRef(i)).join(", ")} as source_refs)` : "") +
+    `.\n\n${QUIZ_GENERATION_FORMAT}`;
+
+  const constraints = {
+    numQuestions,
+    questionTypes,
+    sources: Object.fromEntries(
+      excerpts.map((e, i) => [
+        excerptRef(i),
+        { material_id: e.material_id, page_start: e.page_start, page_end: e.page_end },
+      ])
+    ),
+  };
+  let generated: QuestionInput[] | null = null;
+  let lastErrors: string[] = [];
 
   try {
-    const options = await buildAgentOptions();
-    let resultText = "";
+    for (let attempt = 1; attempt <= GENERATION_MAX_ATTEMPTS && !generated; attempt++) {
+      // Re-prompt with the validation errors from the previous reply
+      const prompt =
+        lastErrors.length > 0
+          ? `${basePrompt}\n\nYour previous reply was rejected:\n- ${lastErrors.join("\n- ")}\n` +
+            `Return the complete corrected set.`
+          : basePrompt;
+
+      const resultText = await runAgentQuery({
+        task: "generate_quiz",
+        prompt,
+        data: {
+          topic_title: topic.title,
+          subject: topic.subject,
+          grade_level: topic.grade_level,
+          num_questions: numQuestions,
+          question_types: questionTypes as QuestionType[],
+          difficulty,
+          excerpts,
+        },
+      });
+      if (resultText === null) {
+        lastErrors = ["generation timed out"];
+        continue;
+      }
 
-    const AGENT_TIMEOUT_MS = 120_000;
-    let timedOut = false;
+      const parsed = parseGeneratedQuiz(resultText, constraints);
+      if (parsed.ok) generated = parsed.questions;
+      else lastErrors = parsed.errors;
+    }
+  } catch (err) {
+    console.error("AI quiz generation error:", err);
+    res.status(500).json({ error: "Failed to generate quiz. Please try again." });
+    return;
+  }
 
-    const agentPromise = (async () => {
-      for await (const msg of query({ prompt, options })) {
-        if (msg.type === "result" && msg.subtype === "success") {
-          resultText = msg.result ?? "";
-        }
-      }
-    })();
-
-    let timeoutHandle: ReturnType<typeof setTimeout>;
-    const timeoutPromise = new Promise<void>((resolve) => {
-      timeoutHandle = setTimeout(() => {
-        timedOut = true;
-        resolve();
-      }, AGENT_TIMEOUT_MS);
+  if (!generated) {
+    res.status(502).json({
+      error: `Quiz generation did not produce valid questions after ${GENERATION_MAX_ATTEMPTS} attempts`,
+      details: lastErrors,
     });
+    return;
+  }
 
-    await Promise.race([agentPromise, timeoutPromise]);
-    clearTimeout(timeoutHandle!);
+  const quizId = genId();
+  const title = `${topic.title} - AI Generated Quiz`;
+  const totalMarks = generated.reduce((sum, q) => sum + q.marks, 0);
+  const rows = generated.map((q, i) => ({
+    id: genId(),
+    quiz_id: quizId,
+    ...q,
+    options: q.options as string[] | null,
+    order_index: i,
+  }));
 
-    if (timedOut && !resultText) {
-      res.status(504).json({ error: "Quiz generation timed out. Please try again." });
-      return;
-    }
+  await db.transaction(async (tx) => {
+    await tx.insert(quizzes).values({
+      id: quizId,
+      title,
+      topic_id,
+      teacher_id: req.user!.userId,
+      quiz_type: "practice",
+      status: "draft",
+      total_marks: totalMarks,
+    });
+    await tx.insert(questions).values(rows);
+  });
 
-    // Try to parse generated questions from agent result
-    let generatedQuestions: Array<{
-      question_text: string;
-      question_type: string;
-      options: string[] | null;
-      correct_answer: string;
-      marks: number;
-      explanation: string;
-      difficulty: string;
-      order_index: number;
-    }> = [];
+  res.json({
+    quiz_id: quizId,
+    title,
+    questions_generated: rows.length,
+    total_marks: totalMarks,
+    status: "draft",
+    questions: rows.map(({ quiz_id: _quizId, ...q }) => q),
+  });
+});
 
-    try {
-      // Try to extract JSON array from the result
-      const jsonMatch = resultText.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        generatedQuestions = JSON.parse(jsonMatch[0]);
-      }
-    } catch {
-      // If parsing fails, return raw result
-    }
-
-    // If we have questions, create a quiz and store them
-    if (generatedQuestions.length > 0) {
-      const quizId = genId();
-      const totalMarks = generatedQuestions.reduce((sum, q) => sum + (q.marks || 1), 0);
-
-      await db.insert(quizzes).values({
-        id: quizId,
-        title: `${topic.title} - AI Generated Quiz`,
-        topic_id,
-        teacher_id: req.user!.userId,
-        quiz_type: "practice",
-        status: "draft",
-        total_marks: totalMarks,
-      });
+// ── AI Short-Answer Evaluation ──
+
+/**
+ * Have the agent grade an attempt's short answers, write the marks and feedback back to
+ * `student_answers` (marked as AI-graded) and rescore the attempt. Returns null when the
+ * attempt has no short answers to evaluate.
+ */
+async function evaluateAttemptWithAgent(attemptId: string): Promise<{
+  results: AiEvaluationResult[];
+  raw: string;
+  score: AttemptScore;
+} | null> {
+  const [attempt] = await db.select().from(quizAttempts).where(eq(quizAttempts.id, attemptId)).limit(1);
+  if (!attempt) throw new Error(`Attempt ${attemptId} not found`);
 
-      for (const q of generatedQuestions) {
-        await db.insert(questions).values({
-          id: genId(),
-          quiz_id: quizId,
-          question_text: q.question_text,
-          question_type: q.question_type || "mcq",
-          options: q.options || null,
-          correct_answer: q.correct_answer,
-          marks: q.marks || 1,
-          explanation: q.explanation || null,
-          difficulty: q.difficulty || "medium",
-          order_index: q.order_index || 0,
-        });
+  const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, attempt.quiz_id)).limit(1);
+  const [topic] = quiz
+    ? await db.select().from(topics).where(eq(topics.id, quiz.topic_id)).limit(1)
+    : [null];
+
+  const rows = await db
+    .select({ answer: studentAnswers, question: questions })
+    .from(studentAnswers)
+    .innerJoin(questions, eq(studentAnswers.question_id, questions.id))
+    .where(eq(studentAnswers.attempt_id, attemptId));
+
+  // Primarily for short answer questions; a teacher's manual grade is never overwritten
+  const shortAnswers = rows.filter(
+    (r) => r.question.question_type === "short_answer" && r.answer.graded_by !== "teacher"
+  );
+  if (shortAnswers.length === 0) return null;
+
+  await db.update(quizAttempts).set({ ai_evaluation_status: "pending" }).where(eq(quizAttempts.id, attemptId));
+
+  const evaluationData = shortAnswers.map(({ answer, question }) => ({
+    question_id: answer.question_id,
+    question_text: question.question_text,
+    question_type: question.question_type,
+    student_answer: answer.answer_text || "",
+    correct_answer: question.correct_answer,
+    marks: question.marks,
+    options: question.options ?? undefined,
+    rubric: question.rubric ?? undefined,
+  }));
+
+  const data = {
+    attempt_id: attemptId,
+    quiz_title: quiz?.title ?? "Quiz",
+    subject: topic?.subject ?? "General",
+    answers: evaluationData,
+  };
+  const prompt =
+    `Evaluate the following short-answer responses for the quiz "${data.quiz_title}" ` +
+    `(Subject: ${data.subject}).\n\n` +
+    `Use the evaluate_answers tool with the following data:\n` +
+    JSON.stringify(data, null, 2) +
+    `\n\n${AI_EVALUATION_FORMAT}`;
+
+  try {
+    const resultText = await runAgentQuery({ task: "evaluate_answers", prompt, data });
+    if (resultText === null) throw new Error("AI evaluation timed out");
+
+    const results = parseAiEvaluation(resultText);
+    if (!results) throw new Error("Agent did not return structured evaluation results");
+
+    const byQuestion = new Map(shortAnswers.map((r) => [r.answer.question_id, r]));
+    await db.transaction(async (tx) => {
+      for (const r of results) {
+        const row = byQuestion.get(r.question_id);
+        if (!row) continue;
+        // With a rubric the mark is the sum of the per-criterion marks the agent reported
+        const criteria =
+          row.question.rubric && r.criteria ? applyReportedCriteria(row.question.rubric, r.criteria) : null;
+        const marks = Math.min(
+          row.question.marks,
+          criteria ? criteria.reduce((sum, c) => sum + c.marks_awarded, 0) : Math.round(r.marks_awarded)
+        );
+        await tx
+          .update(studentAnswers)
+          .set({
+            marks_awarded: marks,
+            is_correct: marks === row.question.marks,
+            ai_feedback: r.feedback,
+            graded_by: "ai",
+            ai_confidence: r.confidence !== undefined ? String(r.confidence) : null,
+            ...(criteria ? { rubric_scores: criteria } : {}),
+          })
+          // A teacher may have graded the answer by hand while the agent was working
+          .where(and(eq(studentAnswers.id, row.answer.id), ne(studentAnswers.graded_by, "teacher")));
       }
+    });
 
-      res.json({
-        quiz_id: quizId,
-        title: `${topic.title} - AI Generated Quiz`,
-        questions_generated: generatedQuestions.length,
-        total_marks: totalMarks,
-        status: "draft",
-        questions: generatedQuestions,
-      });
-    } else {
-      // Return raw agent output if no structured questions found
-      res.json({ raw_result: resultText, questions_generated: 0 });
-    }
+    const score = await recomputeAttemptScore(attemptId);
+    await db.update(quizAttempts).set({ ai_evaluation_status: "completed" }).where(eq(quizAttempts.id, attemptId));
+    return { results, raw: resultText, score };
   } catch (err) {
-    console.error("AI quiz generation error:", err);
-    res.status(500).json({ error: "Failed to generate quiz. Please try again." });
+    await db.update(quizAttempts).set({ ai_evaluation_status: "failed" }).where(eq(quizAttempts.id, attemptId));
+    throw err;
   }
-});
+}
+
+/** Background agent grading calls a paid external service, so deployments opt in to it. */
+const AI_AUTO_EVALUATE = process.env.AI_AUTO_EVALUATE === "true";
+
+/** Queue an AI evaluation in the background; failures are recorded on the attempt and logged. */
+function scheduleAiEvaluation(attemptId: string): void {
+  setImmediate(() => {
+    evaluateAttemptWithAgent(attemptId).catch((err) => {
+      console.error(`Background AI evaluation failed for attempt ${attemptId}:`, err);
+    });
+  });
+}
 
-app.post("/api/agent/evaluate", authMiddleware, async (req: AuthRequest, res) => {
+// Re-grading overwrites the attempt's marks, so only the quiz's teacher (or an admin) may ask for it;
+// a student could otherwise re-roll the AI grade until it came out higher
+app.post("/api/agent/evaluate", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
   const { attempt_id } = req.body;
   if (!attempt_id) {
     res.status(400).json({ error: "attempt_id is required" });
@@ -2049,73 +5553,33 @@ app.post("/api/agent/evaluate", authMiddleware, async (req: AuthRequest, res) =>
     res.status(404).json({ error: "Attempt not found" });
     return;
   }
+  if (attempt.status !== "evaluated") {
+    res.status(400).json({ error: "Attempt has not been submitted yet" });
+    return;
+  }
 
   const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, attempt.quiz_id)).limit(1);
-  const [topic] = quiz
-    ? await db.select().from(topics).where(eq(topics.id, quiz.topic_id)).limit(1)
-    : [null];
-
-  const answers = await db
-    .select()
-    .from(studentAnswers)
-    .where(eq(studentAnswers.attempt_id, attempt_id));
-
-  // Get corresponding questions
-  const questionIds = answers.map((a) => a.question_id);
-  const qs = questionIds.length > 0
-    ? await db.select().from(questions).where(inArray(questions.id, questionIds))
-    : [];
-  const questionMap = new Map(qs.map((q) => [q.id, q]));
-
-  // Build prompt for AI evaluation (primarily for short answer questions)
-  const shortAnswers = answers.filter((a) => {
-    const q = questionMap.get(a.question_id);
-    return q?.question_type === "short_answer";
-  });
-
-  if (shortAnswers.length === 0) {
-    res.json({ message: "No short-answer questions to evaluate with AI", attempt_id });
+  if (!quiz || !canManageQuiz(req.user!, quiz)) {
+    res.status(403).json({ error: "Insufficient permissions" });
     return;
   }
 
-  const evaluationData = shortAnswers.map((a) => {
-    const q = questionMap.get(a.question_id)!;
-    return {
-      question_id: a.question_id,
-      question_text: q.question_text,
-      question_type: q.question_type,
-      student_answer: a.answer_text || "",
-      correct_answer: q.correct_answer,
-      marks: q.marks,
-    };
-  });
-
-  const prompt =
-    `Evaluate the following short-answer responses for the quiz "${quiz?.title ?? "Quiz"}" ` +
-    `(Subject: ${topic?.subject ?? "General"}).\n\n` +
-    `Use the evaluate_answers tool with the following data:\n` +
-    JSON.stringify(
-      {
-        attempt_id,
-        quiz_title: quiz?.title ?? "Quiz",
-        subject: topic?.subject ?? "General",
-        answers: evaluationData,
-      },
-      null,
-      2
-    );
-
   try {
-    const options = await buildAgentOptions();
-    let resultText = "";
-
-    for await (const msg of query({ prompt, options })) {
-      if (msg.type === "result" && msg.subtype === "success") {
-        resultText = msg.result ?? "";
-      }
+    const evaluation = await evaluateAttemptWithAgent(attempt_id);
+    if (!evaluation) {
+      res.json({ message: "No short-answer questions to evaluate with AI", attempt_id });
+      return;
     }
 
-    res.json({ attempt_id, ai_evaluation: resultText });
+    res.json({
+      attempt_id,
+      ai_evaluation: evaluation.raw,
+      results: evaluation.results,
+      score: evaluation.score.score,
+      total_marks: evaluation.score.totalMarks,
+      percentage: evaluation.score.percentage,
+      ai_evaluation_status: "completed",
+    });
   } catch (err) {
     console.error("AI evaluation error:", err);
     res.status(500).json({ error: "AI evaluation failed" });
@@ -2129,6 +5593,13 @@ app.post("/api/agent/chat", authMiddleware, async (req: AuthRequest, res) => {
     return;
   }
 
+  // The topic's materials are quoted into the prompt, so the caller must be allowed to read them
+  const [topic] = topic_id ? await db.select().from(topics).where(eq(topics.id, topic_id)).limit(1) : [];
+  if (topic && !(await canAccessTopicMaterials(req.user!, topic))) {
+    res.status(403).json({ error: "You do not have access to this topic's materials" });
+    return;
+  }
+
   let convId = conversation_id;
   let agentSessionId: string | null = null;
 
@@ -2162,46 +5633,30 @@ app.post("/api/agent/chat", authMiddleware, async (req: AuthRequest, res) => {
     text: message,
   });
 
-  // Build context
+  // Build context: topic details on the first turn, material relevant to this message on every turn
   let context = "";
-  if (topic_id) {
-    const [topic] = await db.select().from(topics).where(eq(topics.id, topic_id)).limit(1);
-    if (topic) {
-      context += `Topic: ${topic.title} (${topic.subject}, ${topic.grade_level ?? "General"})\n`;
-      if (topic.description) context += `Description: ${topic.description}\n`;
-
-      const mats = await db.select().from(materials).where(eq(materials.topic_id, topic_id));
-      const materialText = mats
-        .filter((m) => m.extracted_text)
-        .map((m) => m.extracted_text)
-        .join("\n\n");
-      if (materialText) {
-        context += `\nStudy Material:\n${materialText.slice(0, 3000)}\n`;
-      }
+  let materialContext = "";
+  if (topic) {
+    context += `Topic: ${topic.title} (${topic.subject}, ${topic.grade_level ?? "General"})\n`;
+    if (topic.description) context += `Description: ${topic.description}\n`;
+
+    const excerpts = await retrieveExcerpts(topic.id, `${message} ${topic.title}`, { limit: 4, maxChars: 3000 });
+    if (excerpts.length > 0) {
+      materialContext = `\nRelevant Study Material:\n${formatExcerpts(excerpts)}\n`;
     }
   }
 
   const fullPrompt = agentSessionId
-    ? message
-    : `${context}\n\nUser: ${message}`;
+    ? `${materialContext}\n\nUser: ${message}`.trimStart()
+    : `${context}${materialContext}\n\nUser: ${message}`;
 
   try {
-    const options: Options = {
-      ...(await buildAgentOptions()),
-      ...(agentSessionId ? { resume: agentSessionId } : {}),
-    };
-
-    let resultText = "";
-    let sessionId: string | null = null;
-
-    for await (const msg of query({ prompt: fullPrompt, options })) {
-      if (msg.type === "result") {
-        sessionId = msg.session_id;
-        if (msg.subtype === "success") {
-          resultText = msg.result ?? "";
-        }
-      }
-    }
+    const { text: resultText, sessionId } = await getAgentProvider().run({
+      task: "chat",
+      prompt: fullPrompt,
+      sessionId: agentSessionId,
+      data: { message, context: context + materialContext },
+    });
 
     const finalText = resultText || "I'm having trouble processing your question. Could you try rephrasing?";
 
@@ -2301,7 +5756,7 @@ app.get("/api/analytics/student/:id", authMiddleware, async (req: AuthRequest, r
   });
 });
 
-app.get("/api/analytics/quiz/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req, res) => {
+app.get("/api/analytics/quiz/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
   const quizId = param(req, "id");
   const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, quizId)).limit(1);
   if (!quiz) {
@@ -2309,41 +5764,237 @@ app.get("/api/analytics/quiz/:id", authMiddleware, roleMiddleware("teacher", "ad
     return;
   }
 
-  const attempts = await db
-    .select()
-    .from(quizAttempts)
-    .where(eq(quizAttempts.quiz_id, quizId));
+  // ?class_id= narrows the results to the students of a class the caller manages
+  const classId = typeof req.query.class_id === "string" ? req.query.class_id : null;
+  let members: Set<string> | null = null;
+  if (classId) {
+    const cls = await loadManagedClass(req, res, classId);
+    if (!cls) return;
+    members = new Set(await classStudentIds(cls.id));
+  }
+  const attempts = (
+    await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.quiz_id, quizId))
+  ).filter((a) => !members || members.has(a.student_id));
 
   const completedAttempts = attempts.filter((a) => a.status === "evaluated");
   const totalAttempts = completedAttempts.length;
+
+  // One result per student, chosen by the quiz's attempt policy
+  const counted = Array.from(
+    countedResultsByStudent(
+      completedAttempts.map((a) => ({
+        id: a.id,
+        student_id: a.student_id,
+        score: a.score ?? 0,
+        total_marks: a.total_marks,
+        percentage: parseDecimal(a.percentage) ?? 0,
+        submitted_at: a.submitted_at,
+      })),
+      quiz.scoring_policy as ScoringPolicy
+    ).values()
+  );
+  const studentCount = counted.length;
+
   const avgScore =
-    totalAttempts > 0
-      ? Math.round(
-          (completedAttempts.reduce((sum, a) => sum + (a.score ?? 0), 0) / totalAttempts) * 100
-        ) / 100
+    studentCount > 0
+      ? Math.round((counted.reduce((sum, r) => sum + r.score, 0) / studentCount) * 100) / 100
       : 0;
   const avgPercentage =
-    totalAttempts > 0
-      ? Math.round(
-          (completedAttempts.reduce((sum, a) => sum + (parseDecimal(a.percentage) ?? 0), 0) /
-            totalAttempts) *
-            100
-        ) / 100
+    studentCount > 0
+      ? Math.round((counted.reduce((sum, r) => sum + r.percentage, 0) / studentCount) * 100) / 100
       : 0;
 
-  const passCount = completedAttempts.filter(
-    (a) => (parseDecimal(a.percentage) ?? 0) >= quiz.pass_percentage
-  ).length;
+  const passCount = counted.filter((r) => r.percentage >= quiz.pass_percentage).length;
 
   res.json({
     quiz_id: quizId,
     quiz_title: quiz.title,
+    class_id: classId,
+    scoring_policy: quiz.scoring_policy,
     total_attempts: totalAttempts,
+    student_count: studentCount,
     avg_score: avgScore,
     avg_percentage: avgPercentage,
-    pass_rate: totalAttempts > 0 ? Math.round((passCount / totalAttempts) * 100 * 100) / 100 : 0,
-    highest_score: completedAttempts.length > 0 ? Math.max(...completedAttempts.map((a) => a.score ?? 0)) : 0,
-    lowest_score: completedAttempts.length > 0 ? Math.min(...completedAttempts.map((a) => a.score ?? 0)) : 0,
+    pass_rate: studentCount > 0 ? Math.round((passCount / studentCount) * 100 * 100) / 100 : 0,
+    highest_score: studentCount > 0 ? Math.max(...counted.map((r) => r.score)) : 0,
+    lowest_score: studentCount > 0 ? Math.min(...counted.map((r) => r.score)) : 0,
+  });
+});
+
+// Per-class progress: each assigned quiz's completion and scores, and each student's record
+app.get("/api/analytics/class/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const cls = await loadManagedClass(req, res);
+  if (!cls) return;
+
+  const studentIds = await classStudentIds(cls.id);
+  const assigned = await db
+    .select({ quiz: quizzes, due_at: quizAssignments.due_at })
+    .from(quizAssignments)
+    .innerJoin(quizzes, eq(quizzes.id, quizAssignments.quiz_id))
+    .where(eq(quizAssignments.class_id, cls.id))
+    .orderBy(quizAssignments.due_at);
+  const attempts =
+    studentIds.length > 0 && assigned.length > 0
+      ? await db
+          .select()
+          .from(quizAttempts)
+          .where(
+            and(
+              inArray(quizAttempts.quiz_id, assigned.map((a) => a.quiz.id)),
+              inArray(quizAttempts.student_id, studentIds),
+              eq(quizAttempts.status, "evaluated")
+            )
+          )
+      : [];
+
+  const now = Date.now();
+  const byStudent = new Map(studentIds.map((id) => [id, { completed: 0, overdue: 0, percentages: [] as number[] }]));
+  const quizStats = assigned.map(({ quiz, due_at }) => {
+    const counted = countedResultsByStudent(
+      attempts
+        .filter((a) => a.quiz_id === quiz.id)
+        .map((a) => ({
+          id: a.id,
+          student_id: a.student_id,
+          score: a.score ?? 0,
+          total_marks: a.total_marks,
+          percentage: parseDecimal(a.percentage) ?? 0,
+          submitted_at: a.submitted_at,
+        })),
+      quiz.scoring_policy as ScoringPolicy
+    );
+    const isOverdue = !!due_at && due_at.getTime() <= now;
+    for (const id of studentIds) {
+      const stats = byStudent.get(id)!;
+      const result = counted.get(id);
+      if (result) {
+        stats.completed++;
+        stats.percentages.push(result.percentage);
+      } else if (isOverdue) {
+        stats.overdue++;
+      }
+    }
+
+    const results = [...counted.values()];
+    return {
+      quiz_id: quiz.id,
+      title: quiz.title,
+      due_at: due_at?.toISOString() ?? null,
+      completed_count: results.length,
+      missing_count: studentIds.length - results.length,
+      avg_percentage:
+        results.length > 0
+          ? Math.round((results.reduce((sum, r) => sum + r.percentage, 0) / results.length) * 100) / 100
+          : 0,
+      pass_rate:
+        results.length > 0
+          ? Math.round((results.filter((r) => r.percentage >= quiz.pass_percentage).length / results.length) * 100 * 100) / 100
+          : 0,
+    };
+  });
+
+  const names = studentIds.length > 0
+    ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, studentIds))
+    : [];
+  res.json({
+    class_id: cls.id,
+    name: cls.name,
+    student_count: studentIds.length,
+    quizzes: quizStats,
+    students: names
+      .map((u) => {
+        const stats = byStudent.get(u.id)!;
+        return {
+          student_id: u.id,
+          name: u.name,
+          completed: stats.completed,
+          overdue: stats.overdue,
+          avg_percentage:
+            stats.percentages.length > 0
+              ? Math.round((stats.percentages.reduce((a, b) => a + b, 0) / stats.percentages.length) * 100) / 100
+              : null,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  });
+});
+
+/** Results across every quiz of the given topics, one counted result per student per quiz. */
+async function topicResultsRollup(topicIds: string[]) {
+  const topicQuizzes = await db.select().from(quizzes).where(inArray(quizzes.topic_id, topicIds));
+  const attempts =
+    topicQuizzes.length > 0
+      ? await db
+          .select()
+          .from(quizAttempts)
+          .where(
+            and(
+              inArray(quizAttempts.quiz_id, topicQuizzes.map((q) => q.id)),
+              eq(quizAttempts.status, "evaluated")
+            )
+          )
+      : [];
+
+  const results: Array<{ student_id: string; percentage: number; passed: boolean }> = [];
+  for (const quiz of topicQuizzes) {
+    const counted = countedResultsByStudent(
+      attempts
+        .filter((a) => a.quiz_id === quiz.id)
+        .map((a) => ({
+          id: a.id,
+          student_id: a.student_id,
+          score: a.score ?? 0,
+          total_marks: a.total_marks,
+          percentage: parseDecimal(a.percentage) ?? 0,
+          submitted_at: a.submitted_at,
+        })),
+      quiz.scoring_policy as ScoringPolicy
+    );
+    for (const [studentId, r] of counted) {
+      results.push({ student_id: studentId, percentage: r.percentage, passed: r.percentage >= quiz.pass_percentage });
+    }
+  }
+
+  return {
+    quiz_count: topicQuizzes.length,
+    total_attempts: attempts.length,
+    student_count: new Set(results.map((r) => r.student_id)).size,
+    avg_percentage:
+      results.length > 0
+        ? Math.round((results.reduce((sum, r) => sum + r.percentage, 0) / results.length) * 100) / 100
+        : 0,
+    pass_rate:
+      results.length > 0 ? Math.round((results.filter((r) => r.passed).length / results.length) * 100 * 100) / 100 : 0,
+  };
+}
+
+// Rolls results up through the topic hierarchy: the whole subtree, the topic's own quizzes, and each subtopic
+app.get("/api/analytics/topic/:id", authMiddleware, roleMiddleware("teacher", "admin"), async (req: AuthRequest, res) => {
+  const topic = await loadManagedTopic(req, res);
+  if (!topic) return;
+
+  const children = await db
+    .select({ id: topics.id, title: topics.title })
+    .from(topics)
+    .where(eq(topics.parent_id, topic.id))
+    .orderBy(topics.title);
+
+  res.json({
+    topic_id: topic.id,
+    title: topic.title,
+    ancestors: await topicAncestors(topic),
+    ...(await topicResultsRollup(await topicSubtreeIds(topic.id))),
+    own: await topicResultsRollup([topic.id]),
+    subtopics: await Promise.all(
+      children.map(async (c) => ({
+        topic_id: c.id,
+        title: c.title,
+        ...(await topicResultsRollup(await topicSubtreeIds(c.id))),
+      }))
+    ),
   });
 });
 
@@ -2394,10 +6045,7 @@ app.get("/api/analytics/dashboard", authMiddleware, async (req: AuthRequest, res
       .orderBy(desc(quizAttempts.submitted_at));
 
     const completed = attempts.filter((a) => a.status === "evaluated");
-    const [availableQuizzesRow] = await db
-      .select({ value: count() })
-      .from(quizzes)
-      .where(eq(quizzes.status, "published"));
+    const assignedQuizzes = await assignedPublishedQuizzes(req.user!.userId);
 
     const avgPercentage = completed.length > 0
       ? Math.round((completed.reduce((sum, a) => sum + (parseDecimal(a.percentage) ?? 0), 0) / completed.length) * 100) / 100
@@ -2436,10 +6084,9 @@ app.get("/api/analytics/dashboard", authMiddleware, async (req: AuthRequest, res
     }));
 
     // Available quizzes not yet attempted
-    const allPublished = await db.select().from(quizzes).where(eq(quizzes.status, "published"));
     const attemptedQuizIds = new Set(attempts.map((a) => a.quiz_id));
     const unattempted = await Promise.all(
-      allPublished.filter((q) => !attemptedQuizIds.has(q.id)).slice(0, 5).map(async (q) => {
+      assignedQuizzes.filter((q) => !attemptedQuizIds.has(q.id)).slice(0, 5).map(async (q) => {
         const [topic] = await db.select().from(topics).where(eq(topics.id, q.topic_id)).limit(1);
         return {
           id: q.id,
@@ -2500,10 +6147,9 @@ app.get("/api/analytics/dashboard", authMiddleware, async (req: AuthRequest, res
     const dayOfYear = Math.floor(
       (today.getTime() - new Date(today.getFullYear(), 0, 0).getTime()) / 86400000
     );
-    const allPublishedForChallenge = await db.select().from(quizzes).where(eq(quizzes.status, "published"));
     let dailyChallenge = null;
-    if (allPublishedForChallenge.length > 0) {
-      const cq = allPublishedForChallenge[dayOfYear % allPublishedForChallenge.length];
+    if (assignedQuizzes.length > 0) {
+      const cq = assignedQuizzes[dayOfYear % assignedQuizzes.length];
       const [ct] = await db.select().from(topics).where(eq(topics.id, cq.topic_id)).limit(1);
       dailyChallenge = {
         id: cq.id,
@@ -2517,7 +6163,7 @@ app.get("/api/analytics/dashboard", authMiddleware, async (req: AuthRequest, res
       role: "student",
       user_name: (await db.select().from(users).where(eq(users.id, req.user!.userId)).limit(1))[0]?.name ?? "",
       stats: {
-        available_quizzes: Number(availableQuizzesRow?.value ?? 0),
+        available_quizzes: assignedQuizzes.length,
         completed: completed.length,
         in_progress: attempts.filter((a) => a.status === "in_progress").length,
         avg_percentage: avgPercentage,
@@ -2677,8 +6323,28 @@ const PORT = parseInt(process.env.PORT ?? "3456", 10);
 
 async function startup(): Promise<void> {
   await runMigrations();
+  await getStorage().init();
+  await getLiveBus().start();
   await seedDatabase();
 
+  await advanceQuizSchedules();
+  await indexUnchunkedMaterials();
+  await requeueUnfinishedMaterials();
+  // Housekeeping only: a storage hiccup here must not keep the server from starting
+  await collectOrphanFiles().catch((err) => console.error("Orphaned upload cleanup failed:", err));
+  await sweepLiveTimers();
+  setInterval(() => {
+    advanceQuizSchedules().catch((err) => console.error("Quiz schedule sweep failed:", err));
+    expireOverdueAttempts().catch((err) => console.error("Attempt expiry sweep failed:", err));
+    sweepLiveSessions().catch((err) => console.error("Live session sweep failed:", err));
+  }, 60_000);
+  setInterval(() => {
+    sweepLiveTimers().catch((err) => console.error("Live timer sweep failed:", err));
+  }, LIVE_TIMER_SWEEP_MS);
+  setInterval(() => {
+    collectOrphanFiles().catch((err) => console.error("Orphaned upload cleanup failed:", err));
+  }, ORPHAN_GRACE_MS);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`\n  Smart Quiz Agent running at http://localhost:${PORT}\n`);
   });
@@ -34,6 +34,9 @@ When generating questions:
 - Vary difficulty levels appropriately for the grade level
 - Base questions on the provided study material when available
 - Avoid repetitive question patterns
+- Plan with generate_quiz, write every question in full, and run
+  validate_quiz_questions before replying - never return placeholder
+  text such as "Option A" or bracketed instructions
 
 === EVALUATION RULES ===
 
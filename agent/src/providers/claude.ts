@@ -0,0 +1,67 @@
+/** Claude Agent SDK provider - runs prompts through `query()` with the quiz MCP tools. */
+
+import { query, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
+import type { Options } from "@anthropic-ai/claude-agent-sdk";
+import { buildQuizAgentPrompt } from "../prompts.js";
+import { allTools } from "../tools/index.js";
+import type { AgentProvider, AgentRequest, AgentReply } from "./index.js";
+
+export function buildAgentOptions(): Options {
+  const quizServer = createSdkMcpServer({
+    name: "quiz",
+    version: "1.0.0",
+    tools: allTools,
+  });
+
+  return {
+    systemPrompt: buildQuizAgentPrompt(),
+    allowedTools: [
+      "Read",
+      "mcp__quiz__generate_quiz",
+      "mcp__quiz__validate_quiz_questions",
+      "mcp__quiz__evaluate_answers",
+      "mcp__quiz__get_performance_analytics",
+      "mcp__quiz__get_topic_insights",
+    ],
+    permissionMode: "bypassPermissions",
+    allowDangerouslySkipPermissions: true,
+    // Without an explicit path the SDK uses the executable bundled with the package
+    ...(process.env.CLAUDE_CODE_PATH ? { pathToClaudeCodeExecutable: process.env.CLAUDE_CODE_PATH } : {}),
+    env: {
+      ...Object.fromEntries(
+        Object.entries(process.env).filter(
+          ([k]) =>
+            !["CLAUDECODE", "CLAUDE_CODE_ENTRYPOINT", "ANTHROPIC_MODEL", "ANTHROPIC_SMALL_FAST_MODEL"].includes(k)
+        )
+      ) as Record<string, string>,
+    },
+    mcpServers: { quiz: quizServer },
+    agents: {},
+    model: process.env.AGENT_MODEL ?? "claude-sonnet-4-5@20250929",
+  };
+}
+
+export const claudeProvider: AgentProvider = {
+  name: "claude",
+
+  async run(request: AgentRequest): Promise<AgentReply> {
+    const options: Options = {
+      ...buildAgentOptions(),
+      ...(request.sessionId ? { resume: request.sessionId } : {}),
+    };
+
+    let text = "";
+    let sessionId: string | null = null;
+
+    for await (const msg of query({ prompt: request.prompt, options })) {
+      if (msg.type === "result") {
+        sessionId = msg.session_id;
+        if (msg.subtype === "success") {
+          text = msg.result ?? "";
+        }
+      }
+    }
+
+    return { text, sessionId };
+  },
+};
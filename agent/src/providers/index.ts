@@ -0,0 +1,84 @@
+/**
+ * Agent providers - the LLM backend behind generation, evaluation and chat.
+ * `AGENT_PROVIDER=mock` swaps the Claude Agent SDK for a deterministic offline stand-in.
+ */
+
+import type { QuestionType } from "../question-types.js";
+import type { MaterialExcerpt } from "../retrieval.js";
+import type { Rubric } from "../rubric.js";
+import { claudeProvider } from "./claude.js";
+import { mockProvider } from "./mock.js";
+
+export interface GenerationRequestData {
+  topic_title: string;
+  subject: string;
+  grade_level: string | null;
+  num_questions: number;
+  question_types: QuestionType[];
+  difficulty: "easy" | "medium" | "hard" | "mixed";
+  /** Retrieved study material, most relevant first. */
+  excerpts: MaterialExcerpt[];
+}
+
+export interface EvaluationRequestData {
+  attempt_id: string;
+  quiz_title: string;
+  subject: string;
+  answers: Array<{
+    question_id: string;
+    question_text: string;
+    question_type: string;
+    student_answer: string;
+    correct_answer: string;
+    marks: number;
+    options?: unknown;
+    rubric?: Rubric;
+  }>;
+}
+
+export interface ChatRequestData {
+  message: string;
+  context: string;
+}
+
+/**
+ * One agent call. `prompt` is what a real model sees; `data` carries the same inputs in
+ * structured form for providers that do not read prompts.
+ */
+export type AgentRequest = { prompt: string; sessionId?: string | null } & (
+  | { task: "generate_quiz"; data: GenerationRequestData }
+  | { task: "evaluate_answers"; data: EvaluationRequestData }
+  | { task: "chat"; data: ChatRequestData }
+);
+
+export interface AgentReply {
+  /** The agent's final reply text. */
+  text: string;
+  /** Session to resume for follow-up turns, if the provider keeps one. */
+  sessionId: string | null;
+}
+
+export interface AgentProvider {
+  name: string;
+  run(request: AgentRequest): Promise<AgentReply>;
+}
+
+const providers: Record<string, AgentProvider> = {
+  claude: claudeProvider,
+  mock: mockProvider,
+};
+
+let active: AgentProvider | null = null;
+
+/** The provider selected by `AGENT_PROVIDER` (default `claude`). */
+export function getAgentProvider(): AgentProvider {
+  if (!active) {
+    const name = process.env.AGENT_PROVIDER ?? "claude";
+    const provider = providers[name];
+    if (!provider) {
+      throw new Error(`Unknown AGENT_PROVIDER "${name}" (expected one of: ${Object.keys(providers).join(", ")})`);
+    }
+    active = provider;
+  }
+  return active;
+}
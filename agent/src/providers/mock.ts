@@ -0,0 +1,270 @@
+/**
+ * Offline agent provider - deterministic replies built from the request data, or canned
+ * replies from `AGENT_FIXTURES_DIR`. Lets CI and air-gapped servers run the AI flows.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { gradeAnswer } from "../grading.js";
+import { excerptRef } from "../retrieval.js";
+import type {
+  AgentProvider,
+  AgentRequest,
+  AgentReply,
+  ChatRequestData,
+  EvaluationRequestData,
+  GenerationRequestData,
+} from "./index.js";
+
+const hash = (text: string): string => createHash("sha256").update(text).digest("hex").slice(0, 16);
+
+/**
+ * A canned reply for this request: `<dir>/<task>/<sha256(prompt)[:16]>.txt` for an exact
+ * prompt, otherwise `<dir>/<task>.txt`.
+ */
+function fixtureReply(request: AgentRequest): string | null {
+  const dir = process.env.AGENT_FIXTURES_DIR;
+  if (!dir) return null;
+  for (const file of [join(dir, request.task, `${hash(request.prompt)}.txt`), join(dir, `${request.task}.txt`)]) {
+    if (existsSync(file)) return readFileSync(file, "utf-8");
+  }
+  return null;
+}
+
+// ── Text helpers ──
+
+const STOPWORDS = new Set([
+  "about", "above", "after", "again", "against", "because", "before", "being", "below", "between",
+  "could", "during", "every", "might", "other", "should", "their", "there", "these", "those",
+  "through", "under", "until", "where", "which", "while", "would", "within", "without",
+]);
+
+const FALLBACK_VOCABULARY = ["analysis", "structure", "process", "function", "evidence", "principle", "pattern"];
+
+function sentencesOf(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter((s) => s.length >= 30 && s.length <= 220)
+    .filter((s) => !seen.has(s.toLowerCase()) && !!seen.add(s.toLowerCase()));
+}
+
+function wordsOf(text: string): string[] {
+  return (text.match(/[A-Za-z]{5,}/g) ?? []).filter((w) => !STOPWORDS.has(w.toLowerCase()));
+}
+
+/** The longest content word of a sentence not already used as a keyword. */
+function keywordOf(sentence: string, used: Set<string>): string | null {
+  const candidates = wordsOf(sentence)
+    .filter((w) => !used.has(w.toLowerCase()))
+    .sort((a, b) => b.length - a.length);
+  return candidates[0] ?? null;
+}
+
+function blankOut(sentence: string, keyword: string): string {
+  return sentence.replace(new RegExp(`\\b${keyword}\\b`, "i"), "___");
+}
+
+function rotate<T>(items: T[], by: number): T[] {
+  const n = by % items.length;
+  return [...items.slice(n), ...items.slice(0, n)];
+}
+
+interface Fact {
+  sentence: string;
+  keyword: string;
+  /** Reference of the excerpt the sentence came from, if any. */
+  source?: string;
+}
+
+/** Sentences with a distinct keyword each, from the material or, failing that, the topic. */
+function factsFor(data: GenerationRequestData): Fact[] {
+  const grade = data.grade_level ?? "school";
+  const sentences: Array<{ sentence: string; source?: string }> = [
+    ...data.excerpts.flatMap((e, i) => sentencesOf(e.text).map((sentence) => ({ sentence, source: excerptRef(i) }))),
+    { sentence: `${data.topic_title} is an important topic within ${data.subject}.` },
+    { sentence: `Understanding ${data.topic_title} requires careful study of its central concepts.` },
+    { sentence: `Students at ${grade} level practise ${data.topic_title} through worked examples.` },
+    { sentence: `Precise vocabulary helps learners explain ${data.topic_title} clearly.` },
+  ];
+
+  const used = new Set<string>();
+  const facts: Fact[] = [];
+  for (const { sentence, source } of sentences) {
+    const keyword = keywordOf(sentence, used);
+    if (!keyword) continue;
+    used.add(keyword.toLowerCase());
+    facts.push({ sentence, keyword, source });
+  }
+  return facts;
+}
+
+// ── Generation ──
+
+const MARKS_BY_DIFFICULTY = { easy: 1, medium: 2, hard: 3 } as const;
+
+function buildQuestion(type: string, i: number, facts: Fact[]): Record<string, unknown> {
+  const fact = facts[i % facts.length];
+  const blanked = blankOut(fact.sentence, fact.keyword);
+  const distractors = [...facts.map((f) => f.keyword), ...FALLBACK_VOCABULARY].filter(
+    (w, idx, all) =>
+      w.toLowerCase() !== fact.keyword.toLowerCase() &&
+      all.findIndex((x) => x.toLowerCase() === w.toLowerCase()) === idx
+  );
+
+  switch (type) {
+    case "mcq":
+      return {
+        question_text: `Which word completes the statement: "${blanked}"`,
+        options: rotate([fact.keyword, ...rotate(distractors, i).slice(0, 3)], i),
+        correct_answer: fact.keyword,
+        explanation: `The statement reads: "${fact.sentence}"`,
+      };
+    case "true_false": {
+      const isTrue = i % 2 === 0;
+      const statement = isTrue ? fact.sentence : blanked.replace("___", distractors[i % distractors.length]);
+      return {
+        question_text: `True or false: "${statement}"`,
+        correct_answer: isTrue ? "True" : "False",
+        explanation: `The material states: "${fact.sentence}"`,
+      };
+    }
+    case "short_answer":
+      return {
+        question_text: `In your own words, what does the material say about "${fact.keyword}"?`,
+        options: null,
+        correct_answer: fact.sentence,
+        explanation: `A complete answer restates: "${fact.sentence}"`,
+      };
+    case "fill_in_blank":
+      return {
+        question_text: `Fill in the blank: ${blanked}`,
+        options: { sentence: blanked, acceptable: [fact.keyword] },
+        correct_answer: fact.keyword,
+        explanation: `The missing word is "${fact.keyword}".`,
+      };
+    case "matching": {
+      const group = rotate(facts, i).slice(0, Math.min(3, facts.length));
+      const pairs = group.map((f) => ({ left: f.keyword, right: blankOut(f.sentence, f.keyword) }));
+      return {
+        question_text: "Match each word to the statement it completes.",
+        options: { pairs },
+        correct_answer: JSON.stringify(pairs),
+        explanation: group.map((f) => f.sentence).join(" "),
+      };
+    }
+    default: {
+      // ordering: present consecutive statements shuffled, ask for their original order
+      const group = rotate(facts, i).slice(0, Math.min(4, facts.length));
+      const shown = rotate(group, 1);
+      const correctOrder = group.map((f) => shown.indexOf(f));
+      return {
+        question_text: "Put these statements in the order they appear in the study notes.",
+        options: { items: shown.map((f) => f.sentence) },
+        correct_answer: JSON.stringify(correctOrder),
+        explanation: group.map((f) => f.sentence).join(" "),
+      };
+    }
+  }
+}
+
+function generateQuiz(data: GenerationRequestData): string {
+  const facts = factsFor(data);
+  const difficulties = data.difficulty === "mixed" ? (["easy", "medium", "hard"] as const) : [data.difficulty];
+
+  const questions = Array.from({ length: data.num_questions }, (_, i) => {
+    const type = data.question_types[i % data.question_types.length];
+    const difficulty = difficulties[i % difficulties.length];
+    const source = facts[i % facts.length].source;
+    return {
+      ...buildQuestion(type, i, facts),
+      ...(source ? { source } : {}),
+      question_type: type,
+      marks: MARKS_BY_DIFFICULTY[difficulty],
+      difficulty,
+    };
+  });
+
+  return "```json\n" + JSON.stringify({ questions }, null, 2) + "\n```";
+}
+
+// ── Evaluation ──
+
+function evaluateAnswers(data: EvaluationRequestData): string {
+  const results = data.answers.map((a) => {
+    const grade = gradeAnswer(
+      {
+        question_type: a.question_type,
+        options: a.options ?? null,
+        correct_answer: a.correct_answer,
+        marks: a.marks,
+        rubric: a.rubric,
+      },
+      a.student_answer
+    );
+    return {
+      question_id: a.question_id,
+      marks_awarded: grade.marksAwarded,
+      feedback: grade.feedback ?? (grade.isCorrect ? "Correct." : "Incorrect."),
+      // Keyword matching is only a baseline, so anything short of full marks goes to review
+      confidence: grade.isCorrect ? 1 : 0.5,
+      ...(grade.criteria
+        ? {
+            criteria: grade.criteria.map((c) => ({
+              criterion_id: c.criterion_id,
+              marks_awarded: c.marks_awarded,
+              feedback: c.feedback,
+            })),
+          }
+        : {}),
+    };
+  });
+
+  return "```json\n" + JSON.stringify({ results }, null, 2) + "\n```";
+}
+
+// ── Chat ──
+
+function chatReply(data: ChatRequestData): string {
+  const terms = new Set(wordsOf(data.message).map((w) => w.toLowerCase()));
+  // Drop the "[file, p. N]" source headers that precede each material excerpt
+  const relevant = sentencesOf(data.context.replace(/^\[.*\]$/gm, ""))
+    .map((sentence) => ({
+      sentence,
+      hits: wordsOf(sentence).filter((w) => terms.has(w.toLowerCase())).length,
+    }))
+    .filter((s) => s.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, 3);
+
+  if (relevant.length === 0) {
+    return (
+      "I'm running in offline mode and couldn't find that in the study material for this topic. " +
+      "Try asking about a term or idea that appears in the uploaded notes."
+    );
+  }
+  return (
+    "Here is what the study material says:\n\n" +
+    relevant.map((r) => `- ${r.sentence}`).join("\n") +
+    "\n\nTry explaining it back in your own words to check your understanding."
+  );
+}
+
+export const mockProvider: AgentProvider = {
+  name: "mock",
+
+  async run(request: AgentRequest): Promise<AgentReply> {
+    const text =
+      fixtureReply(request) ??
+      (request.task === "generate_quiz"
+        ? generateQuiz(request.data)
+        : request.task === "evaluate_answers"
+          ? evaluateAnswers(request.data)
+          : chatReply(request.data));
+
+    const sessionId = request.task === "chat" ? (request.sessionId ?? `mock-${hash(request.prompt)}`) : null;
+    return { text, sessionId };
+  },
+};
@@ -0,0 +1,253 @@
+/** Question type definitions - per-type validation of `options` / `correct_answer` shapes. */
+
+import { z } from "zod";
+import { rubricSchema, rubricTotal, type Rubric } from "./rubric.js";
+
+export const QUESTION_TYPES = [
+  "mcq",
+  "true_false",
+  "short_answer",
+  "fill_in_blank",
+  "matching",
+  "ordering",
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+/** A question as stored in the `questions` table (minus ids and ordering). */
+export interface QuestionInput {
+  question_text: string;
+  question_type: QuestionType;
+  options: unknown;
+  correct_answer: string;
+  marks: number;
+  explanation: string | null;
+  difficulty: (typeof DIFFICULTIES)[number];
+  /** Optional marking rubric (short_answer only). */
+  rubric: Rubric | null;
+  /** Optional citation of the material and page range the question is based on. */
+  source_material_id: string | null;
+  source_page_start: number | null;
+  source_page_end: number | null;
+}
+
+const pairSchema = z.object({
+  left: z.string().trim().min(1),
+  right: z.string().trim().min(1),
+});
+
+const baseFields = {
+  question_text: z.string().trim().min(1, "question_text is required"),
+  marks: z.number().int().min(1, "marks must be at least 1").max(100).default(1),
+  explanation: z.string().nullish().transform((v) => v || null),
+  difficulty: z.enum(DIFFICULTIES).default("medium"),
+  source_material_id: z.string().trim().min(1).nullish().transform((v) => v ?? null),
+  source_page_start: z.number().int().min(1).nullish().transform((v) => v ?? null),
+  source_page_end: z.number().int().min(1).nullish().transform((v) => v ?? null),
+};
+
+/** Accept JSON-shaped answers (matching pairs, ordering indices) as either a string or a raw value. */
+const answerField = z.preprocess(
+  (v) => (v == null || typeof v === "string" ? v : JSON.stringify(v)),
+  z.string().trim().optional()
+);
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+const mcqSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("mcq"),
+    options: z.array(z.string().trim().min(1)).min(2, "mcq needs at least 2 options").max(10),
+    correct_answer: answerField,
+  })
+  .superRefine((q, ctx) => {
+    const lower = q.options.map((o) => o.toLowerCase());
+    if (new Set(lower).size !== lower.length) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "mcq options must be distinct" });
+    }
+    if (!q.correct_answer || !lower.includes(q.correct_answer.toLowerCase())) {
+      ctx.addIssue({ code: "custom", path: ["correct_answer"], message: "mcq correct_answer must be one of the options" });
+    }
+  })
+  .transform((q) => ({
+    ...q,
+    correct_answer: q.options.find((o) => o.toLowerCase() === q.correct_answer!.toLowerCase())!,
+  }));
+
+const trueFalseSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("true_false"),
+    options: z.unknown().optional(),
+    correct_answer: answerField,
+  })
+  .superRefine((q, ctx) => {
+    const v = q.correct_answer?.toLowerCase();
+    if (v !== "true" && v !== "false") {
+      ctx.addIssue({ code: "custom", path: ["correct_answer"], message: "true_false correct_answer must be True or False" });
+    }
+  })
+  .transform((q) => ({
+    ...q,
+    options: ["True", "False"],
+    correct_answer: q.correct_answer!.toLowerCase() === "true" ? "True" : "False",
+  }));
+
+const shortAnswerSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("short_answer"),
+    options: z.unknown().optional(),
+    correct_answer: answerField.pipe(
+      z.string({ error: "short_answer needs a correct_answer" }).min(1, "short_answer needs a correct_answer")
+    ),
+    rubric: rubricSchema.nullish(),
+  })
+  .superRefine((q, ctx) => {
+    if (q.rubric && rubricTotal(q.rubric) !== q.marks) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["rubric"],
+        message: `rubric criteria points must add up to the question's marks (${q.marks})`,
+      });
+    }
+  })
+  .transform((q) => ({ ...q, options: null, rubric: q.rubric ?? null }));
+
+const fillInBlankSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("fill_in_blank"),
+    options: z
+      .object({
+        sentence: z.string().trim().min(1).optional(),
+        acceptable: z.array(z.string().trim().min(1)).min(1).optional(),
+      })
+      .nullish(),
+    correct_answer: answerField,
+  })
+  .superRefine((q, ctx) => {
+    if (!q.correct_answer && !q.options?.acceptable?.length) {
+      ctx.addIssue({ code: "custom", path: ["correct_answer"], message: "fill_in_blank needs a correct_answer or acceptable answers" });
+    }
+    if (q.options?.sentence && !q.options.sentence.includes("___")) {
+      ctx.addIssue({ code: "custom", path: ["options", "sentence"], message: "fill_in_blank sentence must contain a ___ blank" });
+    }
+  })
+  .transform((q) => ({
+    ...q,
+    options: q.options ?? null,
+    correct_answer: q.correct_answer || q.options!.acceptable![0],
+  }));
+
+const matchingSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("matching"),
+    options: z.object({ pairs: z.array(pairSchema).min(2, "matching needs at least 2 pairs") }),
+    correct_answer: answerField,
+  })
+  .superRefine((q, ctx) => {
+    const lefts = q.options.pairs.map((p) => p.left.toLowerCase());
+    if (new Set(lefts).size !== lefts.length) {
+      ctx.addIssue({ code: "custom", path: ["options", "pairs"], message: "matching left items must be distinct" });
+    }
+    if (!q.correct_answer) return;
+    const parsed = z.array(pairSchema).safeParse(parseJson(q.correct_answer));
+    if (!parsed.success || parsed.data.length !== q.options.pairs.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["correct_answer"],
+        message: "matching correct_answer must be a JSON array of {left, right} with one entry per pair",
+      });
+    }
+  })
+  .transform((q) => ({
+    ...q,
+    correct_answer: q.correct_answer || JSON.stringify(q.options.pairs),
+  }));
+
+const orderingSchema = z
+  .object({
+    ...baseFields,
+    question_type: z.literal("ordering"),
+    options: z.object({
+      items: z.array(z.string().trim().min(1)).min(2, "ordering needs at least 2 items"),
+      correct_order: z.array(z.number().int()).optional(),
+    }),
+    correct_answer: answerField,
+  })
+  .transform((q, ctx) => {
+    const raw = q.correct_answer ? parseJson(q.correct_answer) : q.options.correct_order;
+    const order = z.array(z.number().int()).safeParse(raw);
+    const n = q.options.items.length;
+    const isPermutation =
+      order.success &&
+      order.data.length === n &&
+      new Set(order.data).size === n &&
+      order.data.every((i) => i >= 0 && i < n);
+    if (!isPermutation) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["correct_answer"],
+        message: "ordering correct_answer must be a JSON array of item indices covering every item once",
+      });
+      return z.NEVER;
+    }
+    return {
+      ...q,
+      options: { items: q.options.items, correct_order: order.data },
+      correct_answer: JSON.stringify(order.data),
+    };
+  });
+
+const questionSchema = z.discriminatedUnion(
+  "question_type",
+  [mcqSchema, trueFalseSchema, shortAnswerSchema, fillInBlankSchema, matchingSchema, orderingSchema],
+  { error: `must be one of: ${QUESTION_TYPES.join(", ")}` }
+);
+
+export type QuestionValidation =
+  | { ok: true; question: QuestionInput }
+  | { ok: false; error: string };
+
+/**
+ * Validate a question payload against the shape its `question_type` requires and
+ * normalize it for storage (canonical option casing, JSON-encoded answers).
+ */
+export function validateQuestion(input: unknown): QuestionValidation {
+  const result = questionSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, error: `${path}${issue.message}` };
+  }
+  const { source_material_id, source_page_start, source_page_end } = result.data;
+  if ((source_page_start !== null || source_page_end !== null) && !source_material_id) {
+    return { ok: false, error: "source_page_start/source_page_end need a source_material_id" };
+  }
+  if (source_page_start !== null && source_page_end !== null && source_page_end < source_page_start) {
+    return { ok: false, error: "source_page_end cannot be before source_page_start" };
+  }
+
+  // Only short_answer carries a rubric; every other type stores null
+  const rubric = "rubric" in result.data ? result.data.rubric : null;
+  return {
+    ok: true,
+    question: {
+      ...result.data,
+      rubric,
+      // A single page may be given as just the start
+      source_page_end: source_page_end ?? source_page_start,
+    } as QuestionInput,
+  };
+}
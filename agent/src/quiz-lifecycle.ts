@@ -0,0 +1,31 @@
+/** Quiz lifecycle state machine: draft → scheduled → published → closed → archived. */
+
+export const QUIZ_STATUSES = ["draft", "scheduled", "published", "closed", "archived"] as const;
+
+export type QuizStatus = (typeof QUIZ_STATUSES)[number];
+
+/** Allowed manual transitions. scheduled → published and published → closed also happen on the clock. */
+const TRANSITIONS: Record<QuizStatus, QuizStatus[]> = {
+  draft: ["scheduled", "published", "archived"],
+  scheduled: ["draft", "published", "archived"],
+  published: ["draft", "closed"],
+  closed: ["scheduled", "published", "archived"],
+  archived: [],
+};
+
+export function canTransition(from: string, to: QuizStatus): boolean {
+  return (TRANSITIONS[from as QuizStatus] ?? []).includes(to);
+}
+
+/**
+ * The status a quiz should be in when it is (re)published: scheduled while its
+ * window has not opened yet, published otherwise.
+ */
+export function publishTarget(scheduledAt: Date | null, now = new Date()): "scheduled" | "published" {
+  return scheduledAt && scheduledAt.getTime() > now.getTime() ? "scheduled" : "published";
+}
+
+/** Quizzes in these states accept no edits to metadata or questions. */
+export function isLocked(status: string): boolean {
+  return status === "archived";
+}
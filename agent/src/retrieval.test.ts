@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { bm25Rank, chunkPages, tokenize } from "./retrieval.js";
+
+describe("tokenize", () => {
+  it("drops stopwords and strips plurals", () => {
+    assert.deepEqual(tokenize("The cells of the plants"), ["cell", "plant"]);
+  });
+});
+
+describe("chunkPages", () => {
+  it("overlaps windows and remembers their pages", () => {
+    const chunks = chunkPages(["a b c d", "e f g h"], { size: 4, overlap: 2 });
+    assert.deepEqual(
+      chunks.map((c) => [c.text, c.page_start, c.page_end]),
+      [
+        ["a b c d", 1, 1],
+        ["c d e f", 1, 2],
+        ["e f g h", 2, 2],
+      ]
+    );
+  });
+
+  it("leaves pages null when they are unknown", () => {
+    const [chunk] = chunkPages(["one two three"], {}, false);
+    assert.equal(chunk.page_start, null);
+    assert.equal(chunk.page_end, null);
+  });
+});
+
+describe("bm25Rank", () => {
+  const corpus = [
+    ...chunkPages(["Photosynthesis turns light into chemical energy in plant cells."]),
+    ...chunkPages(["Mitochondria release energy from glucose during respiration."]),
+    ...chunkPages(["The French revolution began in 1789."]),
+  ];
+
+  it("returns only chunks that share a query term", () => {
+    const ranked = bm25Rank("where does photosynthesis happen", corpus);
+    assert.equal(ranked.length, 1);
+    assert.match(ranked[0].chunk.text, /Photosynthesis/);
+  });
+
+  it("ranks the chunk matching more and rarer terms first", () => {
+    const ranked = bm25Rank("energy from glucose", corpus);
+    assert.equal(ranked.length, 2);
+    assert.match(ranked[0].chunk.text, /Mitochondria/);
+    assert.ok(ranked[0].score > ranked[1].score);
+  });
+
+  it("returns nothing for an empty query or corpus, and honours the limit", () => {
+    assert.deepEqual(bm25Rank("the of and", corpus), []);
+    assert.deepEqual(bm25Rank("energy", []), []);
+    assert.equal(bm25Rank("energy", corpus, { limit: 1 }).length, 1);
+  });
+});
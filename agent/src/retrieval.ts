@@ -0,0 +1,148 @@
+/** Lexical retrieval over study material - page-aware chunking and BM25 ranking. */
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have he her his i if in into is it its of on or our " +
+    "she so than that the their them then there these they this to was we were what when which who " +
+    "will with you your do does did not no can could would should how why about also been more most"
+  ).split(" ")
+);
+
+/** Lowercased content terms, with a light plural strip so "cells" matches "cell". */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+export function termFrequencies(terms: string[]): Record<string, number> {
+  const tf: Record<string, number> = {};
+  for (const t of terms) tf[t] = (tf[t] ?? 0) + 1;
+  return tf;
+}
+
+export interface TextChunk {
+  chunk_index: number;
+  /** 1-based page (or slide/section) range the chunk spans; null when pages are unknown. */
+  page_start: number | null;
+  page_end: number | null;
+  text: string;
+  token_count: number;
+  terms: Record<string, number>;
+}
+
+export interface ChunkOptions {
+  /** Words per chunk. */
+  size?: number;
+  /** Words repeated at the start of the next chunk so ideas are not cut in half. */
+  overlap?: number;
+}
+
+/**
+ * Split extracted pages into overlapping word windows that remember which pages they
+ * came from. Pass a single-element array when page boundaries are unknown.
+ */
+export function chunkPages(pages: string[], options: ChunkOptions = {}, pagesKnown = true): TextChunk[] {
+  const size = options.size ?? 180;
+  const overlap = Math.min(options.overlap ?? 30, size - 1);
+
+  const words: Array<{ word: string; page: number }> = [];
+  pages.forEach((text, i) => {
+    for (const word of text.split(/\s+/)) {
+      if (word) words.push({ word, page: i + 1 });
+    }
+  });
+
+  const chunks: TextChunk[] = [];
+  for (let start = 0; start < words.length; start += size - overlap) {
+    const window = words.slice(start, start + size);
+    const text = window.map((w) => w.word).join(" ");
+    const terms = tokenize(text);
+    chunks.push({
+      chunk_index: chunks.length,
+      page_start: pagesKnown ? window[0].page : null,
+      page_end: pagesKnown ? window[window.length - 1].page : null,
+      text,
+      token_count: terms.length,
+      terms: termFrequencies(terms),
+    });
+    if (start + size >= words.length) break;
+  }
+  return chunks;
+}
+
+export interface IndexedChunk {
+  token_count: number;
+  terms: Record<string, number>;
+}
+
+/**
+ * Rank chunks against a query with Okapi BM25, treating the given chunks as the corpus.
+ * Returns the matching chunks with their scores, best first.
+ */
+export function bm25Rank<T extends IndexedChunk>(
+  queryText: string,
+  chunks: T[],
+  { k1 = 1.2, b = 0.75, limit = 8 } = {}
+): Array<{ chunk: T; score: number }> {
+  const queryTerms = [...new Set(tokenize(queryText))];
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const n = chunks.length;
+  const avgLength = chunks.reduce((sum, c) => sum + c.token_count, 0) / n || 1;
+  const idf = new Map(
+    queryTerms.map((t) => {
+      const df = chunks.filter((c) => c.terms[t]).length;
+      return [t, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  return chunks
+    .map((chunk) => {
+      let score = 0;
+      for (const t of queryTerms) {
+        const tf = chunk.terms[t] ?? 0;
+        if (tf === 0) continue;
+        score += idf.get(t)! * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * chunk.token_count) / avgLength)));
+      }
+      return { chunk, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/** A retrieved passage of study material and where it came from. */
+export interface MaterialExcerpt {
+  material_id: string;
+  file_name: string;
+  /** What the page range counts: PDF/DOCX pages, slides, or document sections. */
+  unit: "page" | "slide" | "section";
+  page_start: number | null;
+  page_end: number | null;
+  text: string;
+}
+
+const UNIT_LABELS = {
+  page: ["p.", "pp."],
+  slide: ["slide", "slides"],
+  section: ["section", "sections"],
+} as const;
+
+export function excerptLabel(
+  e: Pick<MaterialExcerpt, "file_name" | "page_start" | "page_end"> & { unit?: MaterialExcerpt["unit"] }
+): string {
+  if (e.page_start === null) return e.file_name;
+  const [one, many] = UNIT_LABELS[e.unit ?? "page"];
+  return e.page_start === e.page_end || e.page_end === null
+    ? `${e.file_name}, ${one} ${e.page_start}`
+    : `${e.file_name}, ${many} ${e.page_start}-${e.page_end}`;
+}
+
+/** Reference for the i-th excerpt in a prompt ("S1", "S2", ...), so replies can cite it. */
+export const excerptRef = (i: number): string => `S${i + 1}`;
+
+/** Render excerpts for a prompt, each headed by its reference and source. */
+export function formatExcerpts(excerpts: MaterialExcerpt[]): string {
+  return excerpts.map((e, i) => `[${excerptRef(i)}: ${excerptLabel(e)}]\n${e.text}`).join("\n\n");
+}
@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyReportedCriteria, rubricSchema, scoreRubric } from "./rubric.js";
+
+describe("rubricSchema", () => {
+  it("numbers criteria that have no id by position", () => {
+    const rubric = rubricSchema.parse({
+      criteria: [
+        { id: "pigment", description: "Names the pigment", points: 1 },
+        { description: "Names the product", points: 1 },
+      ],
+    });
+    assert.deepEqual(
+      rubric.criteria.map((c) => c.id),
+      ["pigment", "c2"]
+    );
+  });
+
+  it("rejects duplicate criterion ids", () => {
+    const result = rubricSchema.safeParse({
+      criteria: [
+        { id: "a", description: "First", points: 1 },
+        { id: "a", description: "Second", points: 1 },
+      ],
+    });
+    assert.equal(result.success, false);
+    assert.equal(result.error?.issues[0].message, "rubric criterion ids must be distinct");
+  });
+});
+
+describe("scoreRubric", () => {
+  const rubric = rubricSchema.parse({
+    criteria: [
+      { description: "Explains the process", points: 4, keywords: ["sunlight", "water", "carbon dioxide", "glucose"] },
+      {
+        description: "Gives two inputs",
+        points: 4,
+        keywords: ["sunlight", "water", "carbon dioxide"],
+        min_matches: 2,
+      },
+      { description: "Answers in full sentences", points: 2 },
+    ],
+  });
+  const marks = (answer: string) => scoreRubric(rubric, answer).map((c) => c.marks_awarded);
+
+  it("scores each criterion by the share of its keywords found", () => {
+    assert.deepEqual(marks("Plants use SUNLIGHT and  Carbon   Dioxide"), [2, 4, 0]);
+  });
+
+  it("gives full points once min_matches keywords appear", () => {
+    assert.deepEqual(marks("sunlight"), [1, 2, 0]);
+    assert.deepEqual(marks("sunlight, water and carbon dioxide"), [3, 4, 0]);
+  });
+
+  it("leaves criteria without keywords at 0 for review", () => {
+    const [, , sentences] = scoreRubric(rubric, "sunlight water carbon dioxide glucose");
+    assert.equal(sentences.marks_awarded, 0);
+    assert.equal(sentences.max_points, 2);
+    assert.match(sentences.feedback, /^Needs review/);
+  });
+
+  it("reports which criteria were met", () => {
+    const [process, inputs] = scoreRubric(rubric, "sunlight and water");
+    assert.equal(process.feedback, "Partly met: Explains the process (mentioned sunlight, water)");
+    assert.equal(inputs.feedback, "Met: Gives two inputs");
+    assert.equal(scoreRubric(rubric, "")[0].feedback, "Not met: Explains the process");
+  });
+});
+
+describe("applyReportedCriteria", () => {
+  const rubric = rubricSchema.parse({
+    criteria: [
+      { description: "Accuracy", points: 3 },
+      { description: "Reasoning", points: 2 },
+      { description: "Clarity", points: 1 },
+    ],
+  });
+
+  it("clamps and rounds reported marks to each criterion's points", () => {
+    const scores = applyReportedCriteria(rubric, [
+      { criterion_id: "c1", marks_awarded: 10, feedback: "Excellent" },
+      { criterion_id: "c2", marks_awarded: 1.6, feedback: "Mostly sound" },
+      { criterion_id: "c3", marks_awarded: -2, feedback: "Hard to follow" },
+    ]);
+    assert.deepEqual(
+      scores.map((c) => c.marks_awarded),
+      [3, 2, 0]
+    );
+    assert.equal(scores[1].feedback, "Mostly sound");
+  });
+
+  it("scores criteria the evaluator skipped 0 and ignores unknown ids", () => {
+    const scores = applyReportedCriteria(rubric, [
+      { criterion_id: "c2", marks_awarded: 1, feedback: "Fine" },
+      { criterion_id: "c9", marks_awarded: 5, feedback: "Not a criterion" },
+    ]);
+    assert.deepEqual(
+      scores.map((c) => [c.criterion_id, c.marks_awarded]),
+      [
+        ["c1", 0],
+        ["c2", 1],
+        ["c3", 0],
+      ]
+    );
+    assert.equal(scores[0].feedback, "Not assessed by the evaluator.");
+  });
+});
@@ -0,0 +1,107 @@
+/** Short-answer rubrics - point-valued criteria scored against keyword/concept hints. */
+
+import { z } from "zod";
+
+const criterionSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  description: z.string().trim().min(1, "rubric criteria need a description"),
+  points: z.number().int().min(1, "rubric criterion points must be at least 1"),
+  /** Words or phrases that evidence the criterion in an answer. */
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  /** How many keywords must appear for full points (defaults to all of them). */
+  min_matches: z.number().int().min(1).optional(),
+});
+
+/** The rubric shape as accepted from clients and tools, before ids are assigned. */
+export const rubricInputSchema = z.object({
+  criteria: z.array(criterionSchema).min(1, "a rubric needs at least 1 criterion").max(20),
+});
+
+export const rubricSchema = rubricInputSchema
+  .superRefine((r, ctx) => {
+    const ids = r.criteria.map((c) => c.id).filter((id) => id !== undefined);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: "custom", path: ["criteria"], message: "rubric criterion ids must be distinct" });
+    }
+  })
+  .transform((r) => ({
+    criteria: r.criteria.map((c, i) => ({ ...c, id: c.id ?? `c${i + 1}` })),
+  }));
+
+export type Rubric = z.output<typeof rubricSchema>;
+export type RubricCriterion = Rubric["criteria"][number];
+
+/** Marks awarded for one rubric criterion. */
+export interface CriterionScore {
+  criterion_id: string;
+  description: string;
+  marks_awarded: number;
+  max_points: number;
+  feedback: string;
+}
+
+export function rubricTotal(rubric: Rubric): number {
+  return rubric.criteria.reduce((sum, c) => sum + c.points, 0);
+}
+
+const normalize = (s: string): string => s.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Score an answer against each criterion's keyword hints. A criterion earns points in
+ * proportion to the hints found, up to `min_matches`; criteria without hints score 0
+ * and are left for the AI or a teacher to judge.
+ */
+export function scoreRubric(rubric: Rubric, answer: string): CriterionScore[] {
+  const text = normalize(answer);
+
+  return rubric.criteria.map((c) => {
+    if (c.keywords.length === 0) {
+      return {
+        criterion_id: c.id,
+        description: c.description,
+        marks_awarded: 0,
+        max_points: c.points,
+        feedback: "Needs review: no keyword hints to grade this criterion automatically.",
+      };
+    }
+
+    const found = c.keywords.filter((k) => text.includes(normalize(k)));
+    const required = Math.min(c.min_matches ?? c.keywords.length, c.keywords.length);
+    const ratio = Math.min(1, found.length / required);
+    const marks = Math.round(c.points * ratio);
+
+    return {
+      criterion_id: c.id,
+      description: c.description,
+      marks_awarded: marks,
+      max_points: c.points,
+      feedback:
+        marks === c.points
+          ? `Met: ${c.description}`
+          : found.length > 0
+            ? `Partly met: ${c.description} (mentioned ${found.join(", ")})`
+            : `Not met: ${c.description}`,
+    };
+  });
+}
+
+/**
+ * Build criterion scores from marks reported by the AI evaluator, clamped to each
+ * criterion's points. Criteria the evaluator skipped score 0.
+ */
+export function applyReportedCriteria(
+  rubric: Rubric,
+  reported: Array<{ criterion_id: string; marks_awarded: number; feedback: string }>
+): CriterionScore[] {
+  const byId = new Map(reported.map((r) => [r.criterion_id, r]));
+  return rubric.criteria.map((c) => {
+    const r = byId.get(c.id);
+    return {
+      criterion_id: c.id,
+      description: c.description,
+      marks_awarded: r ? Math.max(0, Math.min(c.points, Math.round(r.marks_awarded))) : 0,
+      max_points: c.points,
+      feedback: r?.feedback ?? "Not assessed by the evaluator.",
+    };
+  });
+}
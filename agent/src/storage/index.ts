@@ -0,0 +1,49 @@
+/**
+ * Material file storage - where uploaded files live, addressed by storage key.
+ * `STORAGE_DRIVER=s3` swaps the local uploads directory for an S3-compatible bucket,
+ * so several app containers can share one store.
+ */
+
+import type { Readable } from "node:stream";
+import { createLocalStorage } from "./local.js";
+import { createS3Storage } from "./s3.js";
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  last_modified: Date;
+}
+
+export interface StorageDriver {
+  name: string;
+  /** Prepare the store (create the directory or bucket); called once at startup. */
+  init(): Promise<void>;
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  /** A stream of the object's bytes, or null when there is no such object. */
+  stream(key: string): Promise<Readable | null>;
+  exists(key: string): Promise<boolean>;
+  /** Remove an object; removing a missing object is not an error. */
+  delete(key: string): Promise<void>;
+  list(): AsyncIterable<StoredObject>;
+}
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: createLocalStorage,
+  s3: createS3Storage,
+};
+
+let active: StorageDriver | null = null;
+
+/** The driver selected by `STORAGE_DRIVER` (default `local`). */
+export function getStorage(): StorageDriver {
+  if (!active) {
+    const name = process.env.STORAGE_DRIVER ?? "local";
+    const create = drivers[name];
+    if (!create) {
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected one of: ${Object.keys(drivers).join(", ")})`);
+    }
+    active = create();
+  }
+  return active;
+}
@@ -0,0 +1,64 @@
+/** Local filesystem storage - objects are files under `STORAGE_LOCAL_DIR` (default `uploads/`). */
+
+import { createReadStream, existsSync } from "node:fs";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { StorageDriver } from "./index.js";
+
+const DEFAULT_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..", "..", "uploads");
+
+export function createLocalStorage(): StorageDriver {
+  const root = resolve(process.env.STORAGE_LOCAL_DIR ?? DEFAULT_ROOT);
+
+  /** The file for a key; keys may not climb out of the storage root. */
+  const pathOf = (key: string): string => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) throw new Error(`Invalid storage key "${key}"`);
+    return path;
+  };
+
+  return {
+    name: "local",
+
+    async init() {
+      await mkdir(root, { recursive: true });
+    },
+
+    async put(key, body) {
+      const path = pathOf(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, body);
+    },
+
+    async get(key) {
+      return readFile(pathOf(key));
+    },
+
+    async stream(key) {
+      const path = pathOf(key);
+      return existsSync(path) ? createReadStream(path) : null;
+    },
+
+    async exists(key) {
+      return existsSync(pathOf(key));
+    },
+
+    async delete(key) {
+      await rm(pathOf(key), { force: true });
+    },
+
+    async *list() {
+      for (const entry of await readdir(root, { recursive: true, withFileTypes: true })) {
+        if (!entry.isFile()) continue;
+        const path = join(entry.parentPath, entry.name);
+        const info = await stat(path);
+        yield {
+          key: relative(root, path).split(sep).join("/"),
+          size: info.size,
+          last_modified: info.mtime,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * S3-compatible storage (AWS S3, MinIO, ...) over plain HTTPS with Signature V4 - no SDK.
+ * Configured by S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import type { StorageDriver, StoredObject } from "./index.js";
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  /** Address the bucket in the path (MinIO) rather than the host name (AWS). */
+  pathStyle: boolean;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function readConfig(): S3Config {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error("STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  const region = process.env.S3_REGION ?? "us-east-1";
+  const endpoint = process.env.S3_ENDPOINT;
+  return {
+    bucket: S3_BUCKET,
+    region,
+    endpoint: (endpoint ?? `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ""),
+    pathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === "true" : !!endpoint,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  };
+}
+
+// ── Signature V4 ──
+
+const sha256 = (data: string | Buffer): string => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac("sha256", key).update(data).digest();
+
+/** RFC 3986 encoding as S3 expects it; `/` is kept when encoding an object path. */
+function uriEncode(value: string, keepSlash = false): string {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlash ? encoded.replace(/%2F/g, "/") : encoded;
+}
+
+function signedHeaders(
+  config: S3Config,
+  method: string,
+  url: URL,
+  payloadHash: string,
+  extra: Record<string, string>
+): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${config.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(extra).map(([k, v]) => [k.toLowerCase(), v])),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(headers).sort();
+  const query = [...url.searchParams]
+    .map(([k, v]) => [uriEncode(k), uriEncode(v)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    query,
+    names.map((n) => `${n}:${headers[n].trim()}\n`).join(""),
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+// ── Driver ──
+
+const unescapeXml = (s: string): string =>
+  s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const xmlValue = (xml: string, tag: string): string | null =>
+  xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1] ?? null;
+
+export function createS3Storage(): StorageDriver {
+  const config = readConfig();
+
+  /** URL of the bucket, or of an object in it. */
+  const urlFor = (key = "", query: Record<string, string> = {}): URL => {
+    const path = uriEncode(key, true);
+    const url = config.pathStyle
+      ? new URL(`${config.endpoint}/${config.bucket}/${path}`)
+      : new URL(`${config.endpoint.replace("://", `://${config.bucket}.`)}/${path}`);
+    for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v);
+    return url;
+  };
+
+  async function request(
+    method: string,
+    url: URL,
+    { body, headers = {}, allow = [] }: { body?: Buffer; headers?: Record<string, string>; allow?: number[] } = {}
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method,
+      headers: signedHeaders(config, method, url, sha256(body ?? ""), headers),
+      body: body ? new Uint8Array(body) : undefined,
+    });
+    if (!response.ok && !allow.includes(response.status)) {
+      const detail = xmlValue(await response.text(), "Message");
+      throw new Error(`S3 ${method} ${url.pathname} failed with ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "s3",
+
+    async init() {
+      const head = await request("HEAD", urlFor(), { allow: [404] });
+      if (head.status !== 404) return;
+      // Outside us-east-1, AWS wants the bucket's region spelled out
+      const body =
+        config.region === "us-east-1"
+          ? undefined
+          : Buffer.from(
+              `<CreateBucketConfiguration><LocationConstraint>${config.region}</LocationConstraint></CreateBucketConfiguration>`
+            );
+      await request("PUT", urlFor(), { body });
+    },
+
+    async put(key, body, contentType = "application/octet-stream") {
+      await request("PUT", urlFor(key), { body, headers: { "content-type": contentType } });
+    },
+
+    async get(key) {
+      const response = await request("GET", urlFor(key));
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async stream(key) {
+      const response = await request("GET", urlFor(key), { allow: [404] });
+      if (response.status === 404 || !response.body) return null;
+      return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+    },
+
+    async exists(key) {
+      const response = await request("HEAD", urlFor(key), { allow: [404] });
+      return response.ok;
+    },
+
+    async delete(key) {
+      await request("DELETE", urlFor(key), { allow: [404] });
+    },
+
+    async *list() {
+      let token: string | null = null;
+      do {
+        const query: Record<string, string> = { "list-type": "2" };
+        if (token) query["continuation-token"] = token;
+        const xml = await (await request("GET", urlFor("", query))).text();
+
+        for (const [, entry] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+          const object: StoredObject = {
+            key: unescapeXml(xmlValue(entry, "Key") ?? ""),
+            size: Number(xmlValue(entry, "Size") ?? 0),
+            last_modified: new Date(xmlValue(entry, "LastModified") ?? 0),
+          };
+          yield object;
+        }
+        token = xmlValue(xml, "IsTruncated") === "true" ? unescapeXml(xmlValue(xml, "NextContinuationToken") ?? "") : null;
+      } while (token);
+    },
+  };
+}
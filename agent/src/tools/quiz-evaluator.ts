@@ -2,12 +2,17 @@
 
 import { z } from "zod";
 import { tool } from "@anthropic-ai/claude-agent-sdk";
+import { gradeAnswer } from "../grading.js";
+import { QUESTION_TYPES } from "../question-types.js";
+import { rubricInputSchema, type CriterionScore } from "../rubric.js";
 
 export const evaluateAnswers = tool(
   "evaluate_answers",
-  "Evaluate a student's quiz answers. Auto-grades MCQ and True/False questions by " +
-    "direct comparison. For short-answer questions, provides AI judgment with partial " +
-    "credit and detailed feedback. Returns a score breakdown with per-question analysis.",
+  "Evaluate a student's quiz answers. Auto-grades MCQ, True/False, fill-in-the-blank, " +
+    "matching and ordering questions with the same graders the quiz server uses. For " +
+    "short-answer questions, provides a baseline grade (per rubric criterion when the question " +
+    "has a rubric) that the AI should refine with partial credit and detailed feedback. Returns a " +
+    "score breakdown with per-question analysis.",
   {
     attempt_id: z.string().describe("The quiz attempt identifier"),
     quiz_title: z.string().describe("Title of the quiz for context"),
@@ -17,11 +22,17 @@ export const evaluateAnswers = tool(
         z.object({
           question_id: z.string(),
           question_text: z.string(),
-          question_type: z.enum(["mcq", "true_false", "short_answer"]),
+          question_type: z.enum(QUESTION_TYPES),
           student_answer: z.string().describe("The student's submitted answer"),
           correct_answer: z.string().describe("The correct/expected answer"),
           marks: z.number().describe("Maximum marks for this question"),
-          options: z.array(z.string()).optional().describe("Available options for MCQ"),
+          options: z
+            .unknown()
+            .optional()
+            .describe("Question options as stored (MCQ choices, acceptable blanks, pairs, items)"),
+          rubric: rubricInputSchema
+            .optional()
+            .describe("Short-answer rubric: criteria with point values and keyword/concept hints"),
         })
       )
       .describe("Array of answers to evaluate"),
@@ -39,6 +50,7 @@ export const evaluateAnswers = tool(
       marks_awarded: number;
       max_marks: number;
       feedback: string;
+      criteria?: CriterionScore[];
     }> = [];
 
     let totalScore = 0;
@@ -46,54 +58,28 @@ export const evaluateAnswers = tool(
 
     for (const answer of answers) {
       totalMarks += answer.marks;
-      let isCorrect = false;
-      let marksAwarded = 0;
-      let feedback = "";
-
-      switch (answer.question_type) {
-        case "mcq":
-        case "true_false": {
-          const studentNorm = answer.student_answer.trim().toLowerCase();
-          const correctNorm = answer.correct_answer.trim().toLowerCase();
-          isCorrect = studentNorm === correctNorm;
-          marksAwarded = isCorrect ? answer.marks : 0;
-          feedback = isCorrect
-            ? "Correct!"
-            : `Incorrect. The correct answer is: ${answer.correct_answer}`;
-          break;
-        }
-
-        case "short_answer": {
-          // AI evaluation placeholder - the agent will use its judgment
-          const studentLower = answer.student_answer.trim().toLowerCase();
-          const correctLower = answer.correct_answer.trim().toLowerCase();
+      const grade = gradeAnswer(
+        {
+          question_type: answer.question_type,
+          options: answer.options ?? null,
+          correct_answer: answer.correct_answer,
+          marks: answer.marks,
+          rubric: answer.rubric,
+        },
+        answer.student_answer
+      );
+      const { isCorrect, marksAwarded, criteria } = grade;
+      let feedback = grade.feedback ?? "";
 
-          if (studentLower === correctLower) {
-            isCorrect = true;
-            marksAwarded = answer.marks;
-            feedback = "Correct! Exact match with expected answer.";
-          } else if (
-            correctLower.split(" ").some((word) => studentLower.includes(word)) &&
-            answer.student_answer.trim().length > 0
-          ) {
-            // Partial credit for short answers containing key terms
-            marksAwarded = Math.ceil(answer.marks * 0.5);
-            isCorrect = false;
-            feedback =
-              `[AI should evaluate this answer more carefully]\n` +
-              `Student wrote: "${answer.student_answer}"\n` +
-              `Expected answer contains: "${answer.correct_answer}"\n` +
-              `Partial credit awarded. The AI should assess semantic similarity ` +
-              `and provide detailed feedback on what was correct and what was missing.`;
-          } else {
-            isCorrect = false;
-            marksAwarded = 0;
-            feedback =
-              `Incorrect. The expected answer is: ${answer.correct_answer}. ` +
-              `[AI should provide helpful feedback explaining the correct answer ` +
-              `and where the student's understanding may have gaps.]`;
-          }
-          break;
+      if (answer.question_type === "short_answer" && !isCorrect) {
+        // The keyword grader is only a baseline - the agent should judge semantic similarity
+        feedback +=
+          `\n[AI should evaluate this answer more carefully]\n` +
+          `Student wrote: "${answer.student_answer}"\n` +
+          `The AI should assess semantic similarity and provide detailed feedback ` +
+          `on what was correct and what was missing.`;
+        if (criteria) {
+          feedback += ` Score each rubric criterion separately; keyword hints are only a baseline.`;
         }
       }
 
@@ -109,6 +95,7 @@ export const evaluateAnswers = tool(
         marks_awarded: marksAwarded,
         max_marks: answer.marks,
         feedback,
+        ...(criteria ? { criteria } : {}),
       });
     }
 
@@ -127,24 +114,15 @@ export const evaluateAnswers = tool(
         incorrect_count: evaluatedAnswers.filter((a) => !a.is_correct).length,
         pass_status: percentage >= 40 ? "passed" : "failed",
       },
-      type_breakdown: {
-        mcq: {
-          total: evaluatedAnswers.filter((a) => a.question_type === "mcq").length,
-          correct: evaluatedAnswers.filter((a) => a.question_type === "mcq" && a.is_correct).length,
-        },
-        true_false: {
-          total: evaluatedAnswers.filter((a) => a.question_type === "true_false").length,
-          correct: evaluatedAnswers.filter(
-            (a) => a.question_type === "true_false" && a.is_correct
-          ).length,
-        },
-        short_answer: {
-          total: evaluatedAnswers.filter((a) => a.question_type === "short_answer").length,
-          correct: evaluatedAnswers.filter(
-            (a) => a.question_type === "short_answer" && a.is_correct
-          ).length,
-        },
-      },
+      type_breakdown: Object.fromEntries(
+        QUESTION_TYPES.map((type) => [
+          type,
+          {
+            total: evaluatedAnswers.filter((a) => a.question_type === type).length,
+            correct: evaluatedAnswers.filter((a) => a.question_type === type && a.is_correct).length,
+          },
+        ])
+      ),
       answers: evaluatedAnswers,
       recommendations:
         percentage >= 80